@@ -1,8 +1,10 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { midiService } from './webMidiService';
 import { Song, ProjectData, GlobalMapping, GlobalActionType, CCState, CCMapping } from './types';
 import { useMidiEngine } from './hooks/useMidiEngine';
+import { useMidiDevices } from './hooks/useMidiDevices';
+import { TriggerVelocity } from './engine/performanceEngine';
 import Navigation from './components/Navigation';
 import Editor from './components/Editor';
 import Performance from './components/Performance';
@@ -38,6 +40,7 @@ interface MidiLogEntry {
   id: string;
   timestamp: Date;
   type: 'noteon' | 'noteoff' | 'cc';
+  source: string; // input device name
   channel: number;
   note?: number;
   velocity?: number;
@@ -81,6 +84,25 @@ const processCCValue = (inputValue: number, mapping: CCMapping): number => {
   return Math.max(0, Math.min(127, value));
 };
 
+// Every port id the project refers to. Their device names are remembered so the
+// device is found again when the browser hands out a different id.
+const collectDeviceIds = (project: ProjectData): string[] => [
+  project.selectedInputId,
+  ...(project.activeInputIds || []),
+  project.selectedOutputId,
+  project.clockOutputId || '',
+  ...(project.outputDestinations || []).map(d => d.outputId),
+  ...[...project.globalMappings, ...(project.globalCCMappings || [])].map(m => m.inputDeviceId || ''),
+  ...project.songs.flatMap(song => [...song.mappings, ...(song.ccMappings || [])].map(m => m.inputDeviceId || '')),
+].filter(id => id);
+
+const sameNames = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(id => a[id] === b[id]);
+
+const MIN_BPM = 20;
+const MAX_BPM = 300;
+const clampBpm = (bpm: number) => Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(bpm)));
+
 const App: React.FC = () => {
   const [project, setProject] = useState<ProjectData>(DEFAULT_PROJECT);
   const [currentSongId, setCurrentSongId] = useState<string>(DEFAULT_PROJECT.songs[0].id);
@@ -90,13 +112,46 @@ const App: React.FC = () => {
   const [midiLogs, setMidiLogs] = useState<MidiLogEntry[]>([]);
   const [ccStates, setCCStates] = useState<Record<string, number>>({}); // key: "channel-cc", value: 0-127
 
+  const [missingDevices, setMissingDevices] = useState<string[]>([]);
+
+  const deviceVersion = useMidiDevices();
+  // Device lookups use the names of the committed project; declared before the engine's effects that open ports
+  useEffect(() => {
+    midiService.setDeviceNames(project.deviceNames || {});
+  }, [project.deviceNames]);
+
   const currentSong = project.songs.find(s => s.id === currentSongId) || project.songs[0];
-  const { activeMidiNotes, stepPositions, sendNoteOn, sendNoteOff, stopAllNotes, triggerPreset, triggerSequence, resetAllSequences, triggerTogglePreset, getTogglePresetState } = useMidiEngine(project, currentSong);
+  // The master input plus any additional active inputs
+  const inputIds = useMemo(() => [project.selectedInputId, ...(project.activeInputIds || [])].filter(id => id), [project.selectedInputId, project.activeInputIds]);
+  const { activeMidiNotes, stepPositions, tempoState, transportState, queuedLaunches, sendNoteOn, sendNoteOff, previewGlissando, playThruNote, releaseThruNote, receiveSustainPedal, sendSongPrograms, stopAllNotes, triggerPreset, triggerSequence, resetAllSequences, triggerTogglePreset, getTogglePresetState, transportStart, transportStop, transportContinue, tapTempo, quantizeTrigger } = useMidiEngine(project, currentSong);
 
   useEffect(() => {
     midiService.init().then(() => setIsMidiReady(true));
   }, []);
 
+  // Remember the device name behind each port id as soon as it is used; names of ids
+  // the project no longer refers to are dropped so a re-used id is bound afresh
+  useEffect(() => {
+    const known = project.deviceNames || {};
+    const ports = [...midiService.getInputs(), ...midiService.getOutputs()];
+    const names: Record<string, string> = {};
+    collectDeviceIds(project).forEach(id => {
+      const name = known[id] ?? ports.find(port => port.id === id)?.name;
+      if (name) names[id] = name;
+    });
+    if (!sameNames(names, known)) setProject(prev => ({ ...prev, deviceNames: names }));
+  }, [project, deviceVersion]);
+
+  // Configured devices that are not connected right now, for the header banner; looked up after the names are set
+  useEffect(() => {
+    const outputIds = [project.selectedOutputId, project.clockOutputId, ...(project.outputDestinations || []).map(d => d.outputId)];
+    const missing = isMidiReady ? [...new Set([
+      ...inputIds.filter(id => !midiService.getInputById(id)),
+      ...outputIds.filter((id): id is string => !!id && !midiService.getOutputById(id)),
+    ].map(id => midiService.getDeviceName(id) || 'Unknown device'))] : [];
+    setMissingDevices(prev => prev.length === missing.length && prev.every((name, i) => name === missing[i]) ? prev : missing);
+  }, [isMidiReady, inputIds, project.selectedOutputId, project.clockOutputId, project.outputDestinations, project.deviceNames, deviceVersion]);
+
   const handleUpdateProject = useCallback((updater: (prev: ProjectData) => ProjectData) => setProject(updater), []);
 
   const handleUpdateSong = useCallback((updated: Song) => {
@@ -106,7 +161,7 @@ const App: React.FC = () => {
     }));
   }, []);
 
-  const handleActionTrigger = useCallback((mappingId: string, actionType: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset', targetId: string, isRelease: boolean, triggerValue: string | number) => {
+  const handleActionTrigger = useCallback((mappingId: string, actionType: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset', targetId: string, isRelease: boolean, triggerValue: string | number, velocity?: number) => {
     // toggle_preset은 릴리즈 무시, 누를 때만 토글
     if (actionType === 'toggle_preset') {
       if (!isRelease) {
@@ -115,22 +170,37 @@ const App: React.FC = () => {
       return;
     }
 
-    if (isRelease && actionType !== 'switch_scene') {
-      if (actionType === 'preset') triggerPreset(targetId, true, undefined, 'ms', currentSong.bpm, mappingId, triggerValue, false);
-      else if (actionType === 'sequence') triggerSequence(targetId, mappingId, true, triggerValue);
+    if (actionType === 'switch_scene') {
+      if (!isRelease) handleUpdateSong({ ...currentSong, activeSceneId: targetId });
       return;
     }
 
-    if (!isRelease) {
-      if (actionType === 'preset') {
-        triggerPreset(targetId, false, undefined, 'ms', currentSong.bpm, mappingId, triggerValue, false);
-      } else if (actionType === 'sequence') {
-        triggerSequence(targetId, mappingId, false, triggerValue);
-      } else if (actionType === 'switch_scene') {
-        handleUpdateSong({ ...currentSong, activeSceneId: targetId });
-      }
-    }
-  }, [triggerPreset, triggerSequence, triggerTogglePreset, currentSong, handleUpdateSong]);
+    // Presets and sequences may be held back until the next beat/bar (mapping setting wins over the sequence's)
+    const mapping = currentSong.mappings.find(m => m.id === mappingId);
+    const sequence = actionType === 'sequence' ? currentSong.sequences.find(s => s.id === targetId) : undefined;
+    const quantize = mapping?.launchQuantize ?? sequence?.launchQuantize ?? 'none';
+    // Keyboard and on-screen triggers carry no velocity and play as stored
+    const triggerVelocity: TriggerVelocity | undefined = velocity !== undefined && mapping?.velocityMode && mapping.velocityMode !== 'fixed'
+      ? { value: velocity, mode: mapping.velocityMode, curve: mapping.velocityCurve ?? 'linear' }
+      : undefined;
+    // Range mappings can shift the preset by the distance of the played key from the root
+    const transpose = actionType === 'preset' && mapping?.isMidiRange && mapping.transposeByNote && typeof triggerValue === 'number'
+      ? triggerValue - (mapping.transposeRoot ?? mapping.midiRangeStart)
+      : undefined;
+
+    quantizeTrigger(mappingId, triggerValue, quantize, isRelease, (time?: number) => {
+      if (actionType === 'preset') triggerPreset(targetId, isRelease, undefined, 'ms', currentSong.bpm, mappingId, triggerValue, false, undefined, time, triggerVelocity, transpose);
+      else triggerSequence(targetId, mappingId, isRelease, triggerValue, time, triggerVelocity);
+    });
+  }, [triggerPreset, triggerSequence, triggerTogglePreset, quantizeTrigger, currentSong, handleUpdateSong]);
+
+  // Live tempo changes go through the project state like any edit; the engine reads the new Song.bpm on the next render
+  const setSongBpm = useCallback((update: (bpm: number) => number) => {
+    setProject(prev => ({
+      ...prev,
+      songs: prev.songs.map(s => s.id === currentSongId ? { ...s, bpm: clampBpm(update(s.bpm)) } : s)
+    }));
+  }, [currentSongId]);
 
   const handleGlobalActionTrigger = useCallback((action: GlobalMapping) => {
     if (!action.isEnabled) return;
@@ -140,8 +210,15 @@ const App: React.FC = () => {
       case 'NEXT_SONG': if (currentIndex < project.songs.length - 1) setCurrentSongId(project.songs[currentIndex + 1].id); break;
       case 'GOTO_SONG': const targetIdx = (action.actionValue || 1) - 1; if (project.songs[targetIdx]) setCurrentSongId(project.songs[targetIdx].id); break;
       case 'RESET_SEQUENCES': resetAllSequences(); break;
+      case 'TRANSPORT_START': transportStart(); break;
+      case 'TRANSPORT_STOP': transportStop(); break;
+      case 'TRANSPORT_CONTINUE': transportContinue(); break;
+      case 'TAP_TEMPO': const tapped = tapTempo(); if (tapped !== null) setSongBpm(() => tapped); break;
+      case 'BPM_UP': setSongBpm(bpm => bpm + (action.actionValue || 1)); break;
+      case 'BPM_DOWN': setSongBpm(bpm => bpm - (action.actionValue || 1)); break;
+      case 'SET_BPM': setSongBpm(() => action.actionValue || 120); break;
     }
-  }, [project.songs, currentSongId, resetAllSequences]);
+  }, [project.songs, currentSongId, resetAllSequences, transportStart, transportStop, transportContinue, tapTempo, setSongBpm]);
 
   // Global Keyboard Triggers
   useEffect(() => {
@@ -159,10 +236,10 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [project.globalMappings, handleGlobalActionTrigger]);
 
-  // Global MIDI Triggers + MIDI Monitor Logging
+  // Global MIDI Triggers + MIDI Monitor Logging, on every active input (re-attached when devices come back)
   useEffect(() => {
-    const input = midiService.getInputById(project.selectedInputId);
-    if (!input) return;
+    const inputs = midiService.getInputsByIds(inputIds);
+    if (inputs.length === 0) return;
 
     const addMidiLog = (entry: Omit<MidiLogEntry, 'id' | 'timestamp'>) => {
       setMidiLogs(prev => {
@@ -172,67 +249,81 @@ const App: React.FC = () => {
       });
     };
 
-    const onNoteOn = (e: any) => {
-      const pitch = String(e.note.number);
-      const channel = e.message.channel;
+    // Mappings without a device filter accept every active input
+    const deviceMatch = (inputDeviceId: string | undefined, inputId: string) => !inputDeviceId || midiService.getInputById(inputDeviceId)?.id === inputId;
 
-      // Log to MIDI monitor
-      addMidiLog({ type: 'noteon', channel, note: e.note.number, velocity: e.note.rawAttack });
+    // Process CC mappings and send each to its destination (unknown destinations fall back to the main output)
+    const destinations = project.outputDestinations || [];
+    const outputFor = (destinationId?: string) => {
+      const destination = destinationId ? destinations.find(d => d.id === destinationId) : undefined;
+      return midiService.getOutputById(destination ? destination.outputId : project.selectedOutputId);
+    };
 
-      project.globalMappings.forEach(gm => {
-        const channelMatch = gm.midiChannel === 0 || gm.midiChannel === channel;
-        if (!channelMatch) return;
+    const cleanups = inputs.map(input => {
+      const onNoteOn = (e: any) => {
+        const pitch = String(e.note.number);
+        const channel = e.message.channel;
 
-        const allowedNotes = gm.midiValue.toLowerCase().split(',').map(v => v.trim());
-        if (allowedNotes.includes(pitch)) {
-          handleGlobalActionTrigger(gm);
-        }
-      });
-    };
+        // Log to MIDI monitor
+        addMidiLog({ type: 'noteon', source: input.name, channel, note: e.note.number, velocity: e.note.rawAttack });
 
-    const onNoteOff = (e: any) => {
-      addMidiLog({ type: 'noteoff', channel: e.message.channel, note: e.note.number, velocity: 0 });
-    };
+        project.globalMappings.forEach(gm => {
+          const channelMatch = gm.midiChannel === 0 || gm.midiChannel === channel;
+          if (!channelMatch || !deviceMatch(gm.inputDeviceId, input.id)) return;
+
+          const allowedNotes = gm.midiValue.toLowerCase().split(',').map(v => v.trim());
+          if (allowedNotes.includes(pitch)) {
+            handleGlobalActionTrigger(gm);
+          }
+        });
+      };
+
+      const onNoteOff = (e: any) => {
+        addMidiLog({ type: 'noteoff', source: input.name, channel: e.message.channel, note: e.note.number, velocity: 0 });
+      };
 
-    const onCC = (e: any) => {
-      const channel = e.message.channel;
-      const cc = e.controller.number;
-      const value = e.rawValue;
-      
-      addMidiLog({ type: 'cc', channel, cc, value });
-      
-      // Update CC state for visual display
-      setCCStates(prev => ({ ...prev, [`${channel}-${cc}`]: value }));
-      
-      // Process CC mappings and send to output
-      const output = midiService.getOutputById(project.selectedOutputId);
-      if (!output) return;
-      
-      // Combine global and song CC mappings
-      const allCCMappings = [...(project.globalCCMappings || []), ...(currentSong.ccMappings || [])];
-      
-      allCCMappings.forEach(mapping => {
-        if (!mapping.isEnabled) return;
-        const channelMatch = mapping.inputChannel === 0 || mapping.inputChannel === channel;
-        if (!channelMatch || mapping.inputCC !== cc) return;
+      const onCC = (e: any) => {
+        const channel = e.message.channel;
+        const cc = e.controller.number;
+        const value = e.rawValue;
         
-        const processedValue = processCCValue(value, mapping);
-        const outChannel = mapping.outputRemapEnabled ? mapping.outputChannel : channel;
-        const outCC = mapping.outputRemapEnabled ? mapping.outputCC : cc;
+        addMidiLog({ type: 'cc', source: input.name, channel, cc, value });
         
-        output.sendControlChange(outCC, processedValue, { channels: [outChannel] as any });
-      });
-    };
+        // Update CC state for visual display
+        setCCStates(prev => ({ ...prev, [`${channel}-${cc}`]: value }));
 
-    input.addListener('noteon', onNoteOn);
-    input.addListener('noteoff', onNoteOff);
-    input.addListener('controlchange', onCC);
-    return () => {
-      input.removeListener('noteon', onNoteOn);
-      input.removeListener('noteoff', onNoteOff);
-      input.removeListener('controlchange', onCC);
-    };
-  }, [project.selectedInputId, project.selectedOutputId, project.globalMappings, project.globalCCMappings, currentSong.ccMappings, handleGlobalActionTrigger]);
+        // The engine holds note-offs while the pedal is down (if the song uses it); CC mappings still see CC64
+        if (cc === 64) receiveSustainPedal(channel, value);
+        
+        // Combine global and song CC mappings
+        const allCCMappings = [...(project.globalCCMappings || []), ...(currentSong.ccMappings || [])];
+        
+        allCCMappings.forEach(mapping => {
+          if (!mapping.isEnabled) return;
+          const channelMatch = mapping.inputChannel === 0 || mapping.inputChannel === channel;
+          if (!channelMatch || mapping.inputCC !== cc || !deviceMatch(mapping.inputDeviceId, input.id)) return;
+          
+          const processedValue = processCCValue(value, mapping);
+          const outChannel = mapping.outputRemapEnabled ? mapping.outputChannel : channel;
+          const outCC = mapping.outputRemapEnabled ? mapping.outputCC : cc;
+          
+          const output = outputFor(mapping.destinationId);
+          if (!output) return;
+          output.sendControlChange(outCC, processedValue, { channels: [outChannel] as any });
+        });
+      };
+
+      input.addListener('noteon', onNoteOn);
+      input.addListener('noteoff', onNoteOff);
+      input.addListener('controlchange', onCC);
+      return () => {
+        input.removeListener('noteon', onNoteOn);
+        input.removeListener('noteoff', onNoteOff);
+        input.removeListener('controlchange', onCC);
+      };
+    });
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [inputIds, deviceVersion, project.selectedOutputId, project.outputDestinations, project.globalMappings, project.globalCCMappings, currentSong.ccMappings, handleGlobalActionTrigger, receiveSustainPedal]);
 
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-slate-950 text-slate-100 font-sans">
@@ -251,6 +342,14 @@ const App: React.FC = () => {
           <button onClick={stopAllNotes} className="px-5 py-2 bg-rose-600 hover:bg-rose-500 text-white rounded-xl text-[10px] font-black uppercase tracking-[0.2em] shadow-lg transition-all active:scale-95">Panic</button>
         </div>
       </header>
+      {missingDevices.length > 0 && (
+        <div className="flex items-center gap-3 px-6 py-2 bg-rose-950/60 border-b border-rose-500/40 text-rose-200 z-10">
+          <span className="w-2 h-2 rounded-full bg-rose-500 animate-pulse" />
+          <span className="text-[10px] font-black uppercase tracking-[0.2em]">Device disconnected</span>
+          <span className="text-xs font-bold">{missingDevices.join(', ')}</span>
+          <span className="text-[10px] text-rose-300/70 font-medium">Reconnect it and it is picked up again automatically.</span>
+        </div>
+      )}
 
       {/* MIDI Monitor Modal */}
       {showMidiMonitor && (
@@ -280,6 +379,7 @@ const App: React.FC = () => {
                       log.type === 'noteoff' ? 'bg-slate-600' : 
                       'bg-blue-600'
                     }`}>{log.type}</span>
+                    <span className="text-slate-500 truncate max-w-[110px]" title={log.source}>{log.source}</span>
                     <span className="text-slate-300">CH <span className="text-white font-bold">{log.channel}</span></span>
                     {log.note !== undefined && <span className="text-slate-300">Note <span className="text-white font-bold">{log.note}</span></span>}
                     {log.velocity !== undefined && log.type === 'noteon' && <span className="text-slate-300">Vel <span className="text-white font-bold">{log.velocity}</span></span>}
@@ -295,8 +395,8 @@ const App: React.FC = () => {
       <div className="flex flex-1 overflow-hidden">
         <Navigation songs={project.songs} currentSongId={currentSongId} onSelectSong={setCurrentSongId} onUpdateProject={handleUpdateProject} />
         <main className="flex-1 relative overflow-auto p-8 bg-slate-950 custom-scrollbar">
-          {activeTab === 'editor' && <Editor song={currentSong} onUpdateSong={handleUpdateSong} sendNoteOn={sendNoteOn} sendNoteOff={sendNoteOff} selectedInputId={project.selectedInputId} />}
-          {activeTab === 'performance' && <Performance song={currentSong} activeNotes={activeMidiNotes} stepPositions={stepPositions} onTrigger={handleActionTrigger} selectedInputId={project.selectedInputId} onUpdateSong={handleUpdateSong} ccStates={ccStates} getTogglePresetState={getTogglePresetState} globalCCMappings={project.globalCCMappings} />}
+          {activeTab === 'editor' && <Editor song={currentSong} onUpdateSong={handleUpdateSong} sendNoteOn={sendNoteOn} sendNoteOff={sendNoteOff} previewGlissando={previewGlissando} sendSongPrograms={sendSongPrograms} inputIds={inputIds} destinations={project.outputDestinations || []} />}
+          {activeTab === 'performance' && <Performance song={currentSong} activeNotes={activeMidiNotes} stepPositions={stepPositions} onTrigger={handleActionTrigger} inputIds={inputIds} onUpdateSong={handleUpdateSong} ccStates={ccStates} getTogglePresetState={getTogglePresetState} globalCCMappings={project.globalCCMappings} tempoState={tempoState} transportState={transportState} queuedLaunches={queuedLaunches} onTransportStart={transportStart} onTransportStop={transportStop} onTransportContinue={transportContinue} onThruNoteOn={playThruNote} onThruNoteOff={releaseThruNote} />}
           {activeTab === 'settings' && <Settings project={project} onUpdateProject={handleUpdateProject} />}
         </main>
       </div>
@@ -1,23 +1,28 @@
 
 import React, { useState } from 'react';
-import { Song, SequenceMode, NotePreset, Sequence, Scene } from '../types';
+import { Song, SequenceMode, NotePreset, Sequence, Scene, GlissandoConfig, OutputDestination } from '../types';
 import { EditorSidebar } from './editor/EditorSidebar';
 import { PresetEditor } from './editor/PresetEditor';
 import { SequenceEditor } from './editor/SequenceEditor';
 import { MappingEditor } from './editor/MappingEditor';
 import { CCMappingEditor } from './editor/CCMappingEditor';
 import { SceneEditor } from './editor/SceneEditor';
+import { SongPatchEditor } from './editor/SongPatchEditor';
+import { ThruZoneEditor } from './editor/ThruZoneEditor';
 
 interface EditorProps {
   song: Song;
   onUpdateSong: (song: Song) => void;
-  sendNoteOn: (pitch: number, velocity: number, channel: number, duration: number | null) => void;
-  sendNoteOff: (pitch: number, channel: number) => void;
-  selectedInputId: string;
+  sendNoteOn: (pitch: number, velocity: number, channel: number, duration: number | null, time?: number, destinationId?: string) => void;
+  sendNoteOff: (pitch: number, channel: number, time?: number, destinationId?: string) => void;
+  previewGlissando: (config: GlissandoConfig, channel: number, destinationId?: string) => void;
+  sendSongPrograms: () => void;
+  inputIds: string[];
+  destinations: OutputDestination[];
 }
 
-const Editor: React.FC<EditorProps> = ({ song, onUpdateSong, sendNoteOn, sendNoteOff, selectedInputId }) => {
-  const [activeSubTab, setActiveSubTab] = useState<'presets' | 'sequences' | 'scenes' | 'mappings' | 'cc'>('presets');
+const Editor: React.FC<EditorProps> = ({ song, onUpdateSong, sendNoteOn, sendNoteOff, previewGlissando, sendSongPrograms, inputIds, destinations }) => {
+  const [activeSubTab, setActiveSubTab] = useState<'presets' | 'sequences' | 'scenes' | 'mappings' | 'cc' | 'thru' | 'patches'>('presets');
   const [selectedPresetId, setSelectedPresetId] = useState<string | null>(song.presets?.[0]?.id || null);
   const [selectedSequenceId, setSelectedSequenceId] = useState<string | null>(song.sequences?.[0]?.id || null);
 
@@ -38,15 +43,19 @@ const Editor: React.FC<EditorProps> = ({ song, onUpdateSong, sendNoteOn, sendNot
             <span className="text-[11px] font-black text-slate-500 uppercase tracking-[0.2em]">Master BPM</span>
             <span className="text-2xl font-black text-indigo-400">{song.bpm}</span>
           </div>
+          <label className="bg-slate-900/50 backdrop-blur-md px-6 py-3 rounded-[20px] border border-slate-800 shadow-2xl flex items-center gap-4 cursor-pointer" title="Hold note-offs of released mappings and MIDI thru notes while the sustain pedal (CC64) is down on the mapping's input channel">
+            <input type="checkbox" checked={song.sustainPedal || false} onChange={(e) => onUpdateSong({ ...song, sustainPedal: e.target.checked || undefined })} className="w-4 h-4 accent-indigo-500" />
+            <span className="text-[11px] font-black text-slate-500 uppercase tracking-[0.2em]">Sustain Pedal</span>
+          </label>
         </div>
         <div className="flex gap-12 border-b border-slate-800/50">
-          {(['presets', 'sequences', 'scenes', 'mappings', 'cc'] as const).map(tab => (
+          {(['presets', 'sequences', 'scenes', 'mappings', 'cc', 'thru', 'patches'] as const).map(tab => (
             <button 
               key={tab} 
               onClick={() => setActiveSubTab(tab)} 
               className={`pb-5 px-2 text-[11px] font-black uppercase tracking-[0.25em] relative transition-all ${activeSubTab === tab ? 'text-indigo-400' : 'text-slate-600 hover:text-slate-300'}`}
             >
-              {tab === 'cc' ? 'CC Mapping' : tab} 
+              {tab === 'cc' ? 'CC Mapping' : tab === 'thru' ? 'MIDI Thru' : tab} 
               {activeSubTab === tab && <div className="absolute bottom-0 left-0 right-0 h-1 bg-indigo-500 shadow-[0_0_20px_rgba(99,102,241,1)] rounded-t-full" />}
             </button>
           ))}
@@ -74,6 +83,8 @@ const Editor: React.FC<EditorProps> = ({ song, onUpdateSong, sendNoteOn, sendNot
                     onUpdate={(u) => onUpdateSong({ ...song, presets: song.presets.map(p => p.id === selectedPreset.id ? { ...p, ...u } : p) })}
                     sendNoteOn={sendNoteOn}
                     sendNoteOff={sendNoteOff}
+                    previewGlissando={previewGlissando}
+                    destinations={destinations}
                   />
                 ) : (
                   <div className="flex items-center justify-center h-full text-slate-700 font-black uppercase tracking-[0.3em] opacity-30">Select a preset to begin editing</div>
@@ -100,11 +111,19 @@ const Editor: React.FC<EditorProps> = ({ song, onUpdateSong, sendNoteOn, sendNot
         )}
 
         {activeSubTab === 'mappings' && (
-          <MappingEditor song={song} onUpdateSong={onUpdateSong} selectedInputId={selectedInputId} />
+          <MappingEditor song={song} onUpdateSong={onUpdateSong} inputIds={inputIds} />
         )}
 
         {activeSubTab === 'cc' && (
-          <CCMappingEditor song={song} onUpdateSong={onUpdateSong} selectedInputId={selectedInputId} />
+          <CCMappingEditor song={song} onUpdateSong={onUpdateSong} destinations={destinations} />
+        )}
+
+        {activeSubTab === 'thru' && (
+          <ThruZoneEditor song={song} onUpdateSong={onUpdateSong} destinations={destinations} />
+        )}
+
+        {activeSubTab === 'patches' && (
+          <SongPatchEditor song={song} onUpdateSong={onUpdateSong} sendSongPrograms={sendSongPrograms} />
         )}
       </div>
     </div>
@@ -2,17 +2,28 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { Song, ActiveNoteState, InputMapping, SequenceMode, CCMapping } from '../types';
 import { midiService } from '../webMidiService';
+import { useMidiDevices } from '../hooks/useMidiDevices';
+import { TempoState, TransportState } from '../engine/performanceEngine';
 
 interface PerformanceProps {
   song: Song;
   activeNotes: ActiveNoteState[];
   stepPositions: Record<string, number>;
-  onTrigger: (mappingId: string, type: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset', targetId: string, isRelease: boolean, triggerValue: string | number) => void;
+  onTrigger: (mappingId: string, type: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset', targetId: string, isRelease: boolean, triggerValue: string | number, velocity?: number) => void;
   getTogglePresetState?: (presetId: string) => boolean;
-  selectedInputId: string;
+  inputIds: string[]; // master input first, then the additional active inputs
   onUpdateSong: (song: Song) => void;
   ccStates: Record<string, number>; // key: "channel-cc", value: 0-127
   globalCCMappings?: CCMapping[];
+  tempoState?: TempoState;
+  transportState?: TransportState;
+  queuedLaunches?: Record<string, boolean>; // mapping ids waiting for a quantized launch
+  onTransportStart?: () => void;
+  onTransportStop?: () => void;
+  onTransportContinue?: () => void;
+  // MIDI thru for notes no mapping consumes (velocity 0-1)
+  onThruNoteOn?: (pitch: number, velocity: number, channel: number, inputId: string) => void;
+  onThruNoteOff?: (pitch: number, channel: number, inputId: string) => void;
 }
 
 const DurationBar: React.FC<{ duration: number }> = ({ duration }) => {
@@ -34,7 +45,7 @@ const DurationBar: React.FC<{ duration: number }> = ({ duration }) => {
   );
 };
 
-const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositions, onTrigger, selectedInputId, onUpdateSong, ccStates, getTogglePresetState, globalCCMappings = [] }) => {
+const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositions, onTrigger, inputIds, onUpdateSong, ccStates, getTogglePresetState, globalCCMappings = [], tempoState, transportState, queuedLaunches = {}, onTransportStart, onTransportStop, onTransportContinue, onThruNoteOn, onThruNoteOff }) => {
   const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
   // Store as "channel-pitch" string to include channel info
   const [pressedMidiNotes, setPressedMidiNotes] = useState<Set<string>>(new Set());
@@ -52,9 +63,12 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
   }, [song.mappings, activeScene]);
 
   const globalMappings = useMemo(() => activeMappings.filter(m => m.scope === 'global'), [activeMappings]);
+  const isExternalClock = tempoState?.source === 'midi';
   const sceneMappings = useMemo(() => activeMappings.filter(m => m.scope === 'scene'), [activeMappings]);
 
-  const findMappings = useCallback((type: 'keyboard' | 'midi', value: string | number, channel?: number) => {
+  const deviceVersion = useMidiDevices();
+
+  const findMappings = useCallback((type: 'keyboard' | 'midi', value: string | number, channel?: number, inputId?: string) => {
     return activeMappings.filter(m => {
       if (type === 'keyboard') {
         const triggerStr = String(m.keyboardValue).toLowerCase();
@@ -66,6 +80,7 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
           const channelMatch = m.midiChannel === 0 || m.midiChannel === channel;
           if (!channelMatch) return false;
         }
+        if (m.inputDeviceId && inputId !== undefined && midiService.getInputById(m.inputDeviceId)?.id !== inputId) return false;
 
         if (m.isMidiRange) {
           const numValue = Number(value);
@@ -106,41 +121,45 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
   }, [findMappings, onTrigger]);
 
   useEffect(() => {
-    const input = midiService.getInputById(selectedInputId);
-    if (!input) return;
-    
-    const onNoteOn = (e: any) => {
-      const pitch = e.note.number;
-      const channel = e.message.channel;
-      const noteKey = `${channel}-${pitch}`;
-      console.log(`[MIDI IN] NoteOn CH:${channel} Note:${pitch}`);
-      const mappings = findMappings('midi', pitch, channel);
-      if (mappings.length > 0) {
-        console.log(`[MIDI MATCH] Found ${mappings.length} mapping(s):`, mappings.map(m => `${m.keyboardValue}(CH:${m.midiChannel})`));
-        setPressedMidiNotes(prev => new Set(prev).add(noteKey));
-        mappings.forEach(m => onTrigger(m.id, m.actionType, m.actionTargetId, false, pitch));
-      }
-    };
-    
-    const onNoteOff = (e: any) => {
-      const pitch = e.note.number;
-      const channel = e.message.channel;
-      const noteKey = `${channel}-${pitch}`;
-      const mappings = findMappings('midi', pitch, channel);
-      if (mappings.length > 0) {
-        setPressedMidiNotes(prev => {
-          const next = new Set(prev);
-          next.delete(noteKey);
-          return next;
-        });
-        mappings.forEach(m => onTrigger(m.id, m.actionType, m.actionTargetId, true, pitch));
-      }
-    };
-    
-    input.addListener('noteon', onNoteOn);
-    input.addListener('noteoff', onNoteOff);
-    return () => { input.removeListener('noteon', onNoteOn); input.removeListener('noteoff', onNoteOff); };
-  }, [selectedInputId, findMappings, onTrigger]);
+    const cleanups = midiService.getInputsByIds(inputIds).map(input => {
+      const onNoteOn = (e: any) => {
+        const pitch = e.note.number;
+        const velocity = e.note.attack; // 0-1
+        const channel = e.message.channel;
+        const noteKey = `${channel}-${pitch}`;
+        console.log(`[MIDI IN] ${input.name} NoteOn CH:${channel} Note:${pitch}`);
+        const mappings = findMappings('midi', pitch, channel, input.id);
+        if (mappings.length > 0) {
+          console.log(`[MIDI MATCH] Found ${mappings.length} mapping(s):`, mappings.map(m => `${m.keyboardValue}(CH:${m.midiChannel})`));
+          setPressedMidiNotes(prev => new Set(prev).add(noteKey));
+          mappings.forEach(m => onTrigger(m.id, m.actionType, m.actionTargetId, false, pitch, velocity));
+        }
+        if (mappings.every(m => m.passThrough)) onThruNoteOn?.(pitch, velocity, channel, input.id);
+      };
+      
+      const onNoteOff = (e: any) => {
+        const pitch = e.note.number;
+        const channel = e.message.channel;
+        const noteKey = `${channel}-${pitch}`;
+        const mappings = findMappings('midi', pitch, channel, input.id);
+        if (mappings.length > 0) {
+          setPressedMidiNotes(prev => {
+            const next = new Set(prev);
+            next.delete(noteKey);
+            return next;
+          });
+          mappings.forEach(m => onTrigger(m.id, m.actionType, m.actionTargetId, true, pitch));
+        }
+        // Always safe: a note that was not played thru has nothing to release
+        onThruNoteOff?.(pitch, channel, input.id);
+      };
+      
+      input.addListener('noteon', onNoteOn);
+      input.addListener('noteoff', onNoteOff);
+      return () => { input.removeListener('noteon', onNoteOn); input.removeListener('noteoff', onNoteOff); };
+    });
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [inputIds, deviceVersion, findMappings, onTrigger, onThruNoteOn, onThruNoteOff]);
 
   const getActionName = (type: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset', id: string) => {
     if (type === 'preset' || type === 'toggle_preset') return song.presets.find(p => p.id === id)?.name || 'Unknown Preset';
@@ -171,6 +190,7 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
     }
 
     const isActive = isKeyboardActive || isMidiActive;
+    const isQueued = !!queuedLaunches[map.id];
     
     const triggerDisplay = [];
     if (map.keyboardValue) triggerDisplay.push(`⌨️ ${map.keyboardValue}`);
@@ -214,7 +234,7 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
         key={map.id}
         onMouseDown={() => onTrigger(map.id, map.actionType, map.actionTargetId, false, 'mouse')}
         onMouseUp={() => onTrigger(map.id, map.actionType, map.actionTargetId, true, 'mouse')}
-        className={`h-36 p-4 rounded-2xl flex flex-col items-start justify-between transition-all border-b-4 transform active:translate-y-1 active:border-b-0 ${isActive ? 'bg-indigo-600 border-indigo-800 ring-2 ring-indigo-400 shadow-[0_10px_30px_rgba(99,102,241,0.4)]' : 'bg-slate-800 hover:bg-slate-700 border-slate-900 shadow-xl'}`}
+        className={`h-36 p-4 rounded-2xl flex flex-col items-start justify-between transition-all border-b-4 transform active:translate-y-1 active:border-b-0 ${isActive ? 'bg-indigo-600 border-indigo-800 ring-2 ring-indigo-400 shadow-[0_10px_30px_rgba(99,102,241,0.4)]' : 'bg-slate-800 hover:bg-slate-700 border-slate-900 shadow-xl'} ${isQueued ? 'ring-2 ring-amber-400 animate-pulse' : ''}`}
       >
         <div className="flex items-center justify-between w-full">
           <div className="flex flex-col gap-1">
@@ -226,11 +246,11 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
                 ))}
               </div>
           </div>
-          <div className={`w-2.5 h-2.5 rounded-full ${isActive ? 'bg-white animate-pulse shadow-[0_0_8px_white]' : 'bg-slate-600'}`}></div>
+          <div className={`w-2.5 h-2.5 rounded-full ${isQueued ? 'bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.8)]' : isActive ? 'bg-white animate-pulse shadow-[0_0_8px_white]' : 'bg-slate-600'}`}></div>
         </div>
         
         <div className="text-left w-full mt-2 flex-1">
-          <p className="text-[8px] font-black uppercase opacity-50 tracking-tighter">{map.actionType.replace('_', ' ')}</p>
+          <p className="text-[8px] font-black uppercase opacity-50 tracking-tighter">{isQueued ? <span className="text-amber-300">Queued</span> : map.actionType.replace('_', ' ')}</p>
           <p className="font-bold truncate text-sm leading-tight text-white mb-2">{getActionName(map.actionType, map.actionTargetId)}</p>
           
           {sequenceProgress && (
@@ -260,8 +280,20 @@ const Performance: React.FC<PerformanceProps> = ({ song, activeNotes, stepPositi
             <h2 className="text-4xl font-black text-white leading-none tracking-tight">{song.name}</h2>
             <div className="mt-3 flex gap-2">
               <span className="px-4 py-1.5 bg-indigo-500/10 rounded-full text-[10px] font-black text-indigo-400 border border-indigo-500/20 uppercase tracking-[0.2em]">
-                Tempo: {song.bpm} BPM
+                Tempo: {isExternalClock ? (tempoState?.bpm != null ? tempoState.bpm.toFixed(1) : '--') : song.bpm} BPM
               </span>
+              {isExternalClock && (
+                <span className={`px-4 py-1.5 rounded-full text-[10px] font-black border uppercase tracking-[0.2em] ${tempoState?.isRunning ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-slate-800 text-slate-500 border-slate-700'}`}>
+                  MIDI Clock {tempoState?.isRunning ? '▶' : '■'}
+                </span>
+              )}
+              {transportState?.isEnabled && (
+                <div className="flex gap-1">
+                  <button onClick={onTransportStart} className={`px-3 py-1.5 rounded-full text-[10px] font-black border uppercase tracking-[0.2em] transition-all active:scale-95 ${transportState.isRunning ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'}`} title="Start (from song position 0)">▶ Start</button>
+                  <button onClick={onTransportContinue} disabled={transportState.isRunning} className="px-3 py-1.5 rounded-full text-[10px] font-black border uppercase tracking-[0.2em] transition-all active:scale-95 bg-slate-800 text-slate-400 border-slate-700 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400" title="Continue">⏯</button>
+                  <button onClick={onTransportStop} disabled={!transportState.isRunning} className="px-3 py-1.5 rounded-full text-[10px] font-black border uppercase tracking-[0.2em] transition-all active:scale-95 bg-slate-800 text-slate-400 border-slate-700 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400" title="Stop">■</button>
+                </div>
+              )}
             </div>
           </div>
           <div className="flex flex-col items-end gap-3">
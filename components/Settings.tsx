@@ -1,8 +1,10 @@
 
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { ProjectData, GlobalMapping, GlobalActionType, CCMapping } from '../types';
+import { ProjectData, GlobalMapping, GlobalActionType, CCMapping, ClockSource, OutputDestination } from '../types';
 import { midiService } from '../webMidiService';
+import { useMidiDevices } from '../hooks/useMidiDevices';
 import { v4 as uuidv4 } from 'uuid';
+import { InputDeviceSelect } from './editor/Common';
 
 interface SettingsProps {
   project: ProjectData;
@@ -16,18 +18,23 @@ interface LearningState {
 
 const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
   const [isRescanning, setIsRescanning] = useState(false);
-  const [refreshKey, setRefreshKey] = useState(0);
   const [learning, setLearning] = useState<LearningState | null>(null);
+  const deviceVersion = useMidiDevices();
   
   const inputs = midiService.getInputs();
   const outputs = midiService.getOutputs();
+  // Saved ports are shown as the connected device they resolve to (by name), or as disconnected
+  const masterInputId = midiService.getInputById(project.selectedInputId)?.id ?? project.selectedInputId;
+  const resolveOutputId = (id: string) => midiService.getOutputById(id)?.id ?? id;
+  const disconnectedOption = (id: string | undefined, connected: boolean) => id && !connected
+    ? <option value={id}>{midiService.getDeviceName(id) || 'Unknown Device'} (disconnected)</option>
+    : null;
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleRescan = async () => {
     setIsRescanning(true);
     try {
       await midiService.rescan();
-      setRefreshKey(prev => prev + 1);
     } catch (err) {
       console.error("Rescan failed", err);
     } finally {
@@ -66,14 +73,20 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
 
   useEffect(() => {
     if (!learning || learning.type !== 'midi') return;
-    const input = midiService.getInputById(project.selectedInputId);
-    if (!input) return;
+    const inputs = midiService.getInputsByIds([project.selectedInputId, ...(project.activeInputIds || [])]);
     const onNoteOn = (e: any) => {
       handleLearn(e.note.number);
     };
-    input.addListener('noteon', onNoteOn);
-    return () => input.removeListener('noteon', onNoteOn);
-  }, [learning, project.selectedInputId, handleLearn]);
+    inputs.forEach(input => input.addListener('noteon', onNoteOn));
+    return () => inputs.forEach(input => input.removeListener('noteon', onNoteOn));
+  }, [learning, project.selectedInputId, project.activeInputIds, deviceVersion, handleLearn]);
+
+  const toggleActiveInput = (id: string, active: boolean) => {
+    onUpdateProject(prev => {
+      const others = (prev.activeInputIds || []).filter(i => i !== id && midiService.getInputById(i)?.id !== id);
+      return { ...prev, activeInputIds: active ? [...others, id] : others };
+    });
+  };
 
   const addGlobalMapping = () => {
     const newMapping: GlobalMapping = {
@@ -98,6 +111,27 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
     }));
   };
 
+  const addOutputDestination = () => {
+    const destination: OutputDestination = {
+      id: uuidv4(),
+      name: `Destination ${(project.outputDestinations || []).length + 1}`,
+      outputId: ''
+    };
+    onUpdateProject(prev => ({ ...prev, outputDestinations: [...(prev.outputDestinations || []), destination] }));
+  };
+
+  // Presets, notes and CC mappings still pointing at a removed destination fall back to the master output
+  const removeOutputDestination = (id: string) => {
+    onUpdateProject(prev => ({ ...prev, outputDestinations: (prev.outputDestinations || []).filter(d => d.id !== id) }));
+  };
+
+  const updateOutputDestination = (id: string, updates: Partial<OutputDestination>) => {
+    onUpdateProject(prev => ({
+      ...prev,
+      outputDestinations: (prev.outputDestinations || []).map(d => d.id === id ? { ...d, ...updates } : d)
+    }));
+  };
+
   const addGlobalCCMapping = () => {
     const newMapping: CCMapping = {
       id: uuidv4(),
@@ -219,21 +253,97 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
             </div>
         </div>
 
+        {midiService.sysexAccess === 'denied' && (
+          <div className="flex items-start gap-4 p-5 bg-rose-500/10 border border-rose-500/30 rounded-2xl">
+            <svg className="w-5 h-5 text-rose-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>
+            <div className="space-y-1">
+              <p className="text-xs font-black text-rose-300 uppercase tracking-widest">SysEx access denied</p>
+              <p className="text-xs text-slate-400 font-medium">SysEx messages in presets and sequences are not sent. Allow SysEx for this site in the browser's MIDI permission settings, then reload the page.</p>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-2">
             <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Master MIDI Input</label>
-            <select value={project.selectedInputId} onChange={(e) => onUpdateProject(prev => ({ ...prev, selectedInputId: e.target.value }))} className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
+            <select value={masterInputId} onChange={(e) => onUpdateProject(prev => ({ ...prev, selectedInputId: e.target.value }))} className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
               <option value="">{inputs.length === 0 ? 'Searching for inputs...' : 'No Input Selected'}</option>
               {inputs.map(input => <option key={input.id} value={input.id}>{input.name}</option>)}
+              {disconnectedOption(project.selectedInputId, inputs.some(input => input.id === masterInputId))}
             </select>
+            {inputs.some(input => input.id !== masterInputId) && (
+              <div className="flex flex-wrap gap-2 pt-1" title="Additional inputs listened to alongside the master input">
+                <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest self-center">Also listen to</span>
+                {inputs.filter(input => input.id !== masterInputId).map(input => {
+                  const active = (project.activeInputIds || []).some(id => midiService.getInputById(id)?.id === input.id);
+                  return (
+                    <label key={input.id} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-[10px] font-bold cursor-pointer transition-all ${active ? 'bg-indigo-600/20 border-indigo-500/40 text-indigo-300' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>
+                      <input type="checkbox" checked={active} onChange={(e) => toggleActiveInput(input.id, e.target.checked)} className="w-3 h-3 accent-indigo-500" />
+                      {input.name}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
           </div>
           <div className="space-y-2">
             <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Master MIDI Output</label>
-            <select value={project.selectedOutputId} onChange={(e) => onUpdateProject(prev => ({ ...prev, selectedOutputId: e.target.value }))} className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
+            <select value={resolveOutputId(project.selectedOutputId)} onChange={(e) => onUpdateProject(prev => ({ ...prev, selectedOutputId: e.target.value }))} className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
               <option value="">{outputs.length === 0 ? 'Searching for outputs...' : 'No Output Selected'}</option>
               {outputs.map(output => <option key={output.id} value={output.id}>{output.name}</option>)}
+              {disconnectedOption(project.selectedOutputId, !!midiService.getOutputById(project.selectedOutputId))}
             </select>
           </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Tempo Source</label>
+            <select value={project.clockSource || 'internal'} onChange={(e) => onUpdateProject(prev => ({ ...prev, clockSource: e.target.value as ClockSource }))} className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
+              <option value="internal">Internal (Song / Sequence BPM)</option>
+              <option value="midi">External MIDI Clock (Master Input)</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">MIDI Clock Output</label>
+            <div className="flex gap-3">
+              <select value={project.clockOutputEnabled ? 'on' : 'off'} onChange={(e) => onUpdateProject(prev => ({ ...prev, clockOutputEnabled: e.target.value === 'on' }))} disabled={project.clockSource === 'midi'} className="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none disabled:opacity-40">
+                <option value="off">Off</option>
+                <option value="on">Send Clock</option>
+              </select>
+              <select value={resolveOutputId(project.clockOutputId || '')} onChange={(e) => onUpdateProject(prev => ({ ...prev, clockOutputId: e.target.value }))} disabled={!project.clockOutputEnabled || project.clockSource === 'midi'} className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none disabled:opacity-40">
+                <option value="">Same as Master Output</option>
+                {outputs.map(output => <option key={output.id} value={output.id}>{output.name}</option>)}
+                {disconnectedOption(project.clockOutputId, !!midiService.getOutputById(project.clockOutputId || ''))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3 pt-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Output Destinations</label>
+              <p className="text-[10px] text-slate-600 font-medium mt-1">Named outputs that presets, notes and CC mappings can target instead of the master output</p>
+            </div>
+            <button onClick={addOutputDestination} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-700 transition-all">+ Destination</button>
+          </div>
+          {(project.outputDestinations || []).map(destination => (
+            <div key={destination.id} className="flex gap-3 items-center">
+              <input
+                type="text"
+                value={destination.name}
+                onChange={(e) => updateOutputDestination(destination.id, { name: e.target.value })}
+                className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all"
+                placeholder="e.g. Synth Rack"
+              />
+              <select value={resolveOutputId(destination.outputId)} onChange={(e) => updateOutputDestination(destination.id, { outputId: e.target.value })} className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-600 transition-all appearance-none">
+                <option value="">Not Connected (silent)</option>
+                {outputs.map(output => <option key={output.id} value={output.id}>{output.name}</option>)}
+                {disconnectedOption(destination.outputId, !!midiService.getOutputById(destination.outputId))}
+              </select>
+              <button onClick={() => removeOutputDestination(destination.id)} className="p-2 text-slate-700 hover:text-rose-500 transition-colors">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -302,6 +412,7 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
                       <option value={0}>Omni (All)</option>
                       {Array.from({length: 16}).map((_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
                     </select>
+                    <InputDeviceSelect value={mapping.inputDeviceId} onChange={(inputDeviceId) => updateGlobalMapping(mapping.id, { inputDeviceId })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500 min-w-0 flex-1" />
                   </div>
                 </div>
 
@@ -318,6 +429,13 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
                       <option value="NEXT_SONG">Next Song</option>
                       <option value="GOTO_SONG">Go To Song #</option>
                       <option value="RESET_SEQUENCES">Reset All Sequences (Panic)</option>
+                      <option value="TRANSPORT_START">Transport Start</option>
+                      <option value="TRANSPORT_STOP">Transport Stop</option>
+                      <option value="TRANSPORT_CONTINUE">Transport Continue</option>
+                      <option value="TAP_TEMPO">Tap Tempo</option>
+                      <option value="BPM_UP">Tempo Up</option>
+                      <option value="BPM_DOWN">Tempo Down</option>
+                      <option value="SET_BPM">Set Tempo</option>
                     </select>
                   </div>
                   {mapping.actionType === 'GOTO_SONG' && (
@@ -326,6 +444,18 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
                       <input type="number" min="1" value={mapping.actionValue || 1} onChange={(e) => updateGlobalMapping(mapping.id, { actionValue: parseInt(e.target.value) || 1 })} className="bg-slate-800 text-[10px] font-bold p-3.5 rounded-xl border border-slate-700 outline-none text-center text-slate-200" />
                     </div>
                   )}
+                  {(mapping.actionType === 'BPM_UP' || mapping.actionType === 'BPM_DOWN') && (
+                    <div className="flex flex-col gap-2 w-16">
+                      <label className="text-[9px] text-slate-500 font-black uppercase text-center">Step</label>
+                      <input type="number" min="1" value={mapping.actionValue || 1} onChange={(e) => updateGlobalMapping(mapping.id, { actionValue: parseInt(e.target.value) || 1 })} className="bg-slate-800 text-[10px] font-bold p-3.5 rounded-xl border border-slate-700 outline-none text-center text-slate-200" />
+                    </div>
+                  )}
+                  {mapping.actionType === 'SET_BPM' && (
+                    <div className="flex flex-col gap-2 w-16">
+                      <label className="text-[9px] text-slate-500 font-black uppercase text-center">BPM</label>
+                      <input type="number" min="20" max="300" value={mapping.actionValue || 120} onChange={(e) => updateGlobalMapping(mapping.id, { actionValue: parseInt(e.target.value) || 120 })} className="bg-slate-800 text-[10px] font-bold p-3.5 rounded-xl border border-slate-700 outline-none text-center text-slate-200" />
+                    </div>
+                  )}
                 </div>
 
                 <button onClick={() => removeGlobalMapping(mapping.id)} className="p-3 text-slate-700 hover:text-rose-500 transition-colors self-center mt-4">
@@ -357,7 +487,7 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
 
         <div className="grid grid-cols-1 gap-3">
           {(project.globalCCMappings || []).map(mapping => (
-            <div key={mapping.id} className={`grid grid-cols-[50px_1fr_1fr_1fr_50px] gap-4 bg-slate-900/40 border border-slate-800 p-4 rounded-2xl items-center transition-all ${!mapping.isEnabled && 'opacity-40 grayscale'}`}>
+            <div key={mapping.id} className={`grid grid-cols-[50px_1fr_1fr_1fr_1fr_50px] gap-4 bg-slate-900/40 border border-slate-800 p-4 rounded-2xl items-center transition-all ${!mapping.isEnabled && 'opacity-40 grayscale'}`}>
               <div className="flex flex-col items-center gap-1">
                 <label className="text-[8px] text-slate-600 font-black uppercase">On</label>
                 <input type="checkbox" checked={mapping.isEnabled} onChange={(e) => updateGlobalCCMapping(mapping.id, { isEnabled: e.target.checked })} className="w-5 h-5 accent-indigo-500 cursor-pointer" />
@@ -382,6 +512,7 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
                   </select>
                   <input type="number" min="0" max="127" value={mapping.inputCC} onChange={(e) => updateGlobalCCMapping(mapping.id, { inputCC: parseInt(e.target.value) || 0 })} className="bg-slate-800 p-2 rounded-lg text-[10px] font-bold border border-slate-700 outline-none text-slate-200 w-16" />
                 </div>
+                <InputDeviceSelect value={mapping.inputDeviceId} onChange={(inputDeviceId) => updateGlobalCCMapping(mapping.id, { inputDeviceId })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500" />
               </div>
 
               <div className="flex flex-col gap-1">
@@ -394,6 +525,14 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
                 </div>
               </div>
 
+              <div className="flex flex-col gap-1">
+                <span className="text-[8px] text-slate-600 font-black uppercase">Destination</span>
+                <select value={mapping.destinationId || ''} onChange={(e) => updateGlobalCCMapping(mapping.id, { destinationId: e.target.value || undefined })} className="bg-slate-800 p-2 rounded-lg text-[10px] font-bold border border-slate-700 outline-none text-slate-200">
+                  <option value="">Master Output</option>
+                  {(project.outputDestinations || []).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </div>
+
               <button onClick={() => removeGlobalCCMapping(mapping.id)} className="p-2 text-slate-700 hover:text-rose-500 transition-colors self-center">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
               </button>
@@ -412,6 +551,9 @@ const Settings: React.FC<SettingsProps> = ({ project, onUpdateProject }) => {
         <div className="space-y-3 text-xs text-slate-500 font-medium leading-relaxed">
           <p>• <strong className="text-slate-300">Hybrid Control:</strong> You can map a foot switch (MIDI) and a laptop key simultaneously to "Next Song" for redundancy.</p>
           <p>• <strong className="text-slate-300">Panic/Reset:</strong> Always map "Reset All Sequences" to a prominent key. It stops all active notes and returns every sequence step-pointer to the first item.</p>
+          <p>• <strong className="text-slate-300">External Clock:</strong> With "External MIDI Clock" selected, beat durations, AUTO sequences and glissandos follow the 24-PPQN clock on the master input. A Stop message halts running AUTO sequences.</p>
+          <p>• <strong className="text-slate-300">Clock Output:</strong> "Send Clock" drives drum machines and arpeggiators at the song BPM. Use the Live view transport buttons or the Transport global actions; launching an AUTO sequence mid-bar cues the gear back to the bar start so both downbeats line up.</p>
+          <p>• <strong className="text-slate-300">Multiple Controllers:</strong> Tick "Also listen to" for a second keyboard or pad controller. Every mapping reacts to all active inputs unless its device filter names one of them.</p>
           <p>• <strong className="text-slate-300">MIDI Omni:</strong> Setting Listen Ch to "Omni" will trigger the global action regardless of which MIDI channel your controller is transmitting on.</p>
         </div>
       </div>
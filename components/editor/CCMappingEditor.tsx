@@ -1,11 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { Song, CCMapping, MappingScope } from '../../types';
+import { Song, CCMapping, MappingScope, OutputDestination } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
+import { InputDeviceSelect } from './Common';
 
 interface CCMappingEditorProps {
   song: Song;
   onUpdateSong: (song: Song) => void;
-  selectedInputId: string;
+  destinations: OutputDestination[];
 }
 
 // Curve visualization component
@@ -64,7 +65,7 @@ const CurvePreview: React.FC<{ curveValue: number; currentInput?: number }> = ({
   );
 };
 
-export const CCMappingEditor: React.FC<CCMappingEditorProps> = ({ song, onUpdateSong, selectedInputId }) => {
+export const CCMappingEditor: React.FC<CCMappingEditorProps> = ({ song, onUpdateSong, destinations }) => {
   const [selectedMappingId, setSelectedMappingId] = useState<string | null>(null);
   const [editingCurve, setEditingCurve] = useState<string | null>(null);
 
@@ -260,6 +261,14 @@ export const CCMappingEditor: React.FC<CCMappingEditorProps> = ({ song, onUpdate
                     className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-indigo-500"
                   />
                 </div>
+                <div className="col-span-2">
+                  <label className="text-xs text-slate-400 mb-1 block">Device</label>
+                  <InputDeviceSelect
+                    value={selectedMapping.inputDeviceId}
+                    onChange={(inputDeviceId) => updateMapping(selectedMapping.id, { inputDeviceId })}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
               </div>
             </section>
 
@@ -415,6 +424,19 @@ export const CCMappingEditor: React.FC<CCMappingEditorProps> = ({ song, onUpdate
                   </div>
                 </div>
               )}
+              {destinations.length > 0 && (
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">Destination</label>
+                  <select
+                    value={selectedMapping.destinationId || ''}
+                    onChange={(e) => updateMapping(selectedMapping.id, { destinationId: e.target.value || undefined })}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-amber-500"
+                  >
+                    <option value="">Master Output</option>
+                    {destinations.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+              )}
             </section>
           </div>
         ) : (
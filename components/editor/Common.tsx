@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { DurationUnit } from '../../types';
+import { DurationUnit, HumanizeConfig, ProgramChange } from '../../types';
+import { midiService } from '../../webMidiService';
 
 export const UnitSelector: React.FC<{ value: DurationUnit, onChange: (u: DurationUnit) => void }> = ({ value, onChange }) => (
   <div className="flex bg-slate-900 rounded p-0.5 border border-slate-700">
@@ -8,3 +9,49 @@ export const UnitSelector: React.FC<{ value: DurationUnit, onChange: (u: Duratio
     <button onClick={() => onChange('beat')} className={`px-2 py-0.5 text-[8px] font-black uppercase rounded ${value === 'beat' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}>beat</button>
   </div>
 );
+
+// Timing (± ms), velocity (± %) and seed inputs; clearing both ranges removes the setting
+export const HumanizeControls: React.FC<{ value?: HumanizeConfig, onChange: (h: HumanizeConfig | undefined) => void }> = ({ value, onChange }) => {
+  const update = (u: Partial<HumanizeConfig>) => {
+    const next = { timingMs: 0, velocity: 0, ...value, ...u };
+    onChange(next.timingMs || next.velocity ? next : undefined);
+  };
+  const inputClass = "bg-slate-900 text-[10px] font-black p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 text-center focus:border-indigo-500 placeholder:text-slate-600";
+  return (
+    <div className="flex items-center gap-2 bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl" title="Random variation applied at playback; the stored notes are not changed">
+      <span className="text-[10px] font-black text-slate-500 uppercase px-3">Humanize</span>
+      <input type="number" min="0" placeholder="±ms" value={value?.timingMs || ''} onChange={(e) => update({ timingMs: Math.max(0, parseFloat(e.target.value) || 0) })} className={`w-14 ${inputClass}`} title="Timing range (± ms)" />
+      <input type="number" min="0" max="100" placeholder="±vel%" value={value?.velocity ? Math.round(value.velocity * 100) : ''} onChange={(e) => update({ velocity: Math.min(1, Math.max(0, (parseFloat(e.target.value) || 0) / 100)) })} className={`w-16 ${inputClass}`} title="Velocity range (± %)" />
+      <input type="number" min="0" placeholder="Seed" value={value?.seed ?? ''} disabled={!value} onChange={(e) => update({ seed: e.target.value === '' ? null : parseInt(e.target.value) || 0 })} className={`w-16 ${inputClass} disabled:opacity-40`} title="Seed (empty = different every time)" />
+    </div>
+  );
+};
+
+// Channel, bank MSB/LSB and program inputs; clearing the program removes the setting
+export const ProgramChangeControls: React.FC<{ value?: ProgramChange, defaultChannel: number, onChange: (pc: ProgramChange | undefined) => void }> = ({ value, defaultChannel, onChange }) => {
+  const toMidi = (raw: string) => raw === '' ? null : Math.min(127, Math.max(0, parseInt(raw) || 0));
+  const update = (u: Partial<ProgramChange>) => onChange({ channel: defaultChannel, program: 0, ...value, ...u });
+  const inputClass = "bg-slate-900 text-[10px] font-black p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 text-center focus:border-indigo-500 placeholder:text-slate-600 disabled:opacity-40";
+  return (
+    <div className="flex items-center gap-2 bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl" title="Bank select (CC0/CC32) and program change, 0-127">
+      <span className="text-[10px] font-black text-slate-500 uppercase px-3">Patch</span>
+      <input type="number" min="1" max="16" placeholder="Ch" value={value?.channel ?? ''} disabled={!value} onChange={(e) => update({ channel: Math.min(16, Math.max(1, parseInt(e.target.value) || 1)) })} className={`w-12 ${inputClass}`} title="Channel" />
+      <input type="number" min="0" max="127" placeholder="MSB" value={value?.bankMsb ?? ''} disabled={!value} onChange={(e) => update({ bankMsb: toMidi(e.target.value) })} className={`w-14 ${inputClass}`} title="Bank MSB (CC0); empty = not sent" />
+      <input type="number" min="0" max="127" placeholder="LSB" value={value?.bankLsb ?? ''} disabled={!value} onChange={(e) => update({ bankLsb: toMidi(e.target.value) })} className={`w-14 ${inputClass}`} title="Bank LSB (CC32); empty = not sent" />
+      <input type="number" min="0" max="127" placeholder="Prog" value={value?.program ?? ''} onChange={(e) => { const program = toMidi(e.target.value); onChange(program === null ? undefined : { channel: defaultChannel, ...value, program }); }} className={`w-14 ${inputClass}`} title="Program" />
+    </div>
+  );
+};
+
+// Input device filter for a mapping; a saved device that is not connected stays listed
+export const InputDeviceSelect: React.FC<{ value?: string, onChange: (inputDeviceId: string | undefined) => void, className: string }> = ({ value, onChange, className }) => {
+  const inputs = midiService.getInputs();
+  const resolved = value ? midiService.getInputById(value) : undefined;
+  return (
+    <select value={resolved?.id ?? value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className={className} title="Only react to this input device">
+      <option value="">Any Input</option>
+      {inputs.map(input => <option key={input.id} value={input.id}>{input.name}</option>)}
+      {value && !resolved && <option value={value}>{midiService.getDeviceName(value) || 'Unknown Device'} (disconnected)</option>}
+    </select>
+  );
+};
@@ -1,24 +1,31 @@
 
 import React from 'react';
-import { SequenceItem, Song } from '../../types';
+import { SequenceItem, Song, Sequence } from '../../types';
 import { midiToNoteName } from './PianoView';
 import { UnitSelector } from './Common';
+import { parseSysExHex } from '../../engine/sysex';
 
 interface CompactItemEditorProps {
   item: SequenceItem;
   presets: Song['presets'];
+  sequences?: Sequence[]; // nestable sequences; enables the sequence item type
   onUpdate: (updates: Partial<SequenceItem>) => void;
   onDelete: () => void;
   isStepView?: boolean;
 }
 
-export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, presets, onUpdate, onDelete, isStepView }) => {
+export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, presets, sequences, onUpdate, onDelete, isStepView }) => {
+  const sysexError = item.type === 'sysex' ? parseSysExHex(item.sysexHex ?? '').error : null;
   return (
     <div className={`${isStepView ? 'w-full' : 'bg-slate-900 p-6 rounded-2xl border border-indigo-500 shadow-2xl w-80 ring-8 ring-slate-950/80 pointer-events-auto'} space-y-4`} onClick={(e) => e.stopPropagation()}>
       <div className="flex items-center justify-between">
         <div className="flex bg-slate-800 rounded-lg p-0.5">
           <button onClick={() => onUpdate({ type: 'preset' })} className={`px-3 py-1 text-[9px] font-black uppercase rounded ${item.type === 'preset' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Preset</button>
           <button onClick={() => onUpdate({ type: 'note', noteData: item.noteData || { pitch: 60, velocity: 0.8, channel: 1, preDelay: 0, duration: null, durationUnit: 'ms' } })} className={`px-3 py-1 text-[9px] font-black uppercase rounded ${item.type === 'note' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Note</button>
+          {sequences && (
+            <button onClick={() => onUpdate({ type: 'sequence', targetId: sequences.some(s => s.id === item.targetId) ? item.targetId : sequences[0]?.id || '' })} className={`px-3 py-1 text-[9px] font-black uppercase rounded ${item.type === 'sequence' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Seq</button>
+          )}
+          <button onClick={() => onUpdate({ type: 'sysex', sysexHex: item.sysexHex ?? 'F0 F7' })} className={`px-3 py-1 text-[9px] font-black uppercase rounded ${item.type === 'sysex' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>SysEx</button>
         </div>
         <button onClick={onDelete} className="text-rose-500 p-1.5 hover:bg-rose-500/10 rounded-lg transition-colors">
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
@@ -33,6 +40,20 @@ export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, pres
               {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
             </select>
           </div>
+        ) : item.type === 'sequence' ? (
+          <div className="space-y-1.5">
+            <span className="text-[8px] text-slate-500 uppercase font-black">Target Sequence</span>
+            <select value={item.targetId || ''} onChange={(e) => onUpdate({ targetId: e.target.value })} className="bg-slate-800 text-[11px] font-bold p-2.5 rounded-xl border border-slate-700 outline-none w-full text-slate-200 focus:border-indigo-500">
+              <option value="">None Selected</option>
+              {(sequences ?? []).map(s => <option key={s.id} value={s.id}>{s.name} ({s.mode})</option>)}
+            </select>
+          </div>
+        ) : item.type === 'sysex' ? (
+          <div className="space-y-1.5">
+            <span className="text-[8px] text-slate-500 uppercase font-black">Message (hex)</span>
+            <textarea rows={2} spellCheck={false} value={item.sysexHex ?? ''} onChange={(e) => onUpdate({ sysexHex: e.target.value })} placeholder="F0 43 10 4C 00 00 7E 00 F7" className={`bg-slate-800 text-[11px] font-mono font-bold p-2.5 rounded-xl border outline-none w-full text-slate-200 resize-none placeholder:text-slate-600 ${sysexError ? 'border-rose-500/60 focus:border-rose-500' : 'border-slate-700 focus:border-indigo-500'}`} />
+            {sysexError && <span className="block text-[8px] font-black text-rose-400 uppercase">{sysexError}</span>}
+          </div>
         ) : (
           <div className="grid grid-cols-3 gap-2">
             <div className="flex flex-col gap-1.5">
@@ -53,7 +74,7 @@ export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, pres
           </div>
         )}
         
-        <div className="flex flex-col gap-1.5">
+        {item.type !== 'sysex' && <div className="flex flex-col gap-1.5">
           <div className="flex items-center justify-between">
             <span className="text-[8px] text-slate-500 uppercase font-black">Duration Override</span>
             <UnitSelector value={item.overrideDurationUnit || 'ms'} onChange={(u) => onUpdate({ overrideDurationUnit: u })} />
@@ -66,7 +87,7 @@ export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, pres
             onChange={(e) => onUpdate({ overrideDuration: e.target.value === '' ? null : parseFloat(e.target.value)})} 
             className="bg-slate-800 text-[11px] font-bold p-2.5 rounded-xl border border-slate-700 outline-none placeholder:text-slate-600 text-slate-200 focus:border-indigo-500" 
           />
-        </div>
+        </div>}
 
         {isStepView && (
           <div className="flex items-center justify-between bg-slate-800/50 p-3 rounded-xl border border-slate-700">
@@ -80,6 +101,32 @@ export const CompactItemEditor: React.FC<CompactItemEditorProps> = ({ item, pres
           </div>
         )}
 
+        {isStepView && (
+          <div className="space-y-2 pt-2 border-t border-slate-800">
+            <div className="flex items-center justify-between">
+              <span className="text-[8px] text-slate-500 uppercase font-black">Conditions</span>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <span className="text-[8px] text-slate-400 uppercase font-black">Skip</span>
+                <input type="checkbox" checked={item.skip || false} onChange={(e) => onUpdate({ skip: e.target.checked || undefined })} className="w-4 h-4 accent-rose-500 cursor-pointer" />
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[8px] text-slate-500 uppercase font-black">Prob %</span>
+                <input type="number" min="0" max="100" placeholder="100" value={item.probability === undefined ? '' : Math.round(item.probability * 100)} onChange={(e) => onUpdate({ probability: e.target.value === '' ? undefined : Math.min(1, Math.max(0, (parseFloat(e.target.value) || 0) / 100)) })} className="bg-slate-800 text-[11px] font-bold p-2.5 rounded-xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 text-center placeholder:text-slate-600" />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[8px] text-slate-500 uppercase font-black">Repeat</span>
+                <input type="number" min="1" placeholder="1" value={item.repeat ?? ''} onChange={(e) => onUpdate({ repeat: e.target.value === '' ? undefined : Math.max(1, parseInt(e.target.value) || 1) })} className="bg-slate-800 text-[11px] font-bold p-2.5 rounded-xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 text-center placeholder:text-slate-600" title="Presses spent on this step before advancing" />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[8px] text-slate-500 uppercase font-black">Every Nth</span>
+                <input type="number" min="1" placeholder="1" value={item.everyNthPass ?? ''} onChange={(e) => onUpdate({ everyNthPass: e.target.value === '' ? undefined : Math.max(1, parseInt(e.target.value) || 1) })} className="bg-slate-800 text-[11px] font-bold p-2.5 rounded-xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 text-center placeholder:text-slate-600" title="Only sounds on every Nth pass through the sequence" />
+              </div>
+            </div>
+          </div>
+        )}
+
         {!isStepView && (
           <div className="flex flex-col gap-1.5 pt-2 border-t border-slate-800">
             <span className="text-[8px] text-slate-500 uppercase font-black">Beat Position</span>
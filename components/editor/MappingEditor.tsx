@@ -1,14 +1,16 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Song, InputMapping, MappingScope } from '../../types';
+import { Song, InputMapping, MappingScope, LaunchQuantize, VelocityMode, VelocityCurve } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 import { midiService } from '../../webMidiService';
+import { useMidiDevices } from '../../hooks/useMidiDevices';
 import { midiToNoteName } from './PianoView';
+import { InputDeviceSelect } from './Common';
 
 interface MappingEditorProps {
   song: Song;
   onUpdateSong: (song: Song) => void;
-  selectedInputId: string;
+  inputIds: string[];
 }
 
 interface LearningState {
@@ -16,8 +18,9 @@ interface LearningState {
   type: 'keyboard' | 'midi';
 }
 
-export const MappingEditor: React.FC<MappingEditorProps> = ({ song, onUpdateSong, selectedInputId }) => {
+export const MappingEditor: React.FC<MappingEditorProps> = ({ song, onUpdateSong, inputIds }) => {
   const [learning, setLearning] = useState<LearningState | null>(null);
+  const deviceVersion = useMidiDevices();
 
   const handleLearn = useCallback((value: string | number) => {
     if (!learning) return;
@@ -53,16 +56,14 @@ export const MappingEditor: React.FC<MappingEditorProps> = ({ song, onUpdateSong
   useEffect(() => {
     if (!learning || learning.type !== 'midi') return;
 
-    const input = midiService.getInputById(selectedInputId);
-    if (!input) return;
-
+    const inputs = midiService.getInputsByIds(inputIds);
     const onNoteOn = (e: any) => {
       handleLearn(e.note.number);
     };
 
-    input.addListener('noteon', onNoteOn);
-    return () => input.removeListener('noteon', onNoteOn);
-  }, [learning, selectedInputId, handleLearn]);
+    inputs.forEach(input => input.addListener('noteon', onNoteOn));
+    return () => inputs.forEach(input => input.removeListener('noteon', onNoteOn));
+  }, [learning, inputIds, deviceVersion, handleLearn]);
 
   const updateMapping = (id: string, updates: Partial<InputMapping>) => {
     onUpdateSong({
@@ -164,12 +165,32 @@ export const MappingEditor: React.FC<MappingEditorProps> = ({ song, onUpdateSong
                      </button>
                    </div>
                  )}
+                 {map.isMidiRange && map.actionType === 'preset' && (
+                   <div className="flex items-center gap-2 px-1">
+                     <label className="flex items-center gap-1.5 cursor-pointer" title="Play the preset transposed by the distance of the played key from the root">
+                       <input type="checkbox" checked={map.transposeByNote || false} onChange={(e) => updateMapping(map.id, { transposeByNote: e.target.checked })} className="w-3 h-3 accent-indigo-500" />
+                       <span className="text-[8px] font-black text-slate-600 uppercase">Transpose</span>
+                     </label>
+                     {map.transposeByNote && (
+                       <>
+                         <span className="text-[8px] font-black text-slate-600 uppercase">Root</span>
+                         <input type="number" min="0" max="127" value={map.transposeRoot ?? map.midiRangeStart} onChange={(e) => updateMapping(map.id, { transposeRoot: parseInt(e.target.value) || 0 })} className="w-10 bg-transparent text-[9px] font-bold outline-none text-slate-500" />
+                         <span className="text-[8px] font-black text-indigo-400 uppercase">{midiToNoteName(map.transposeRoot ?? map.midiRangeStart)}</span>
+                       </>
+                     )}
+                   </div>
+                 )}
                  <div className="flex items-center gap-2 mt-1 px-1">
                     <span className="text-[8px] font-black text-slate-600 uppercase">CH</span>
                     <select value={map.midiChannel} onChange={(e) => updateMapping(map.id, { midiChannel: parseInt(e.target.value) })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500">
                       <option value={0}>OMNI</option>
                       {Array.from({length:16}).map((_,i) => <option key={i} value={i+1}>{i+1}</option>)}
                     </select>
+                    <label className="flex items-center gap-1 cursor-pointer" title="Also play the note through the MIDI thru zones instead of consuming it">
+                      <input type="checkbox" checked={map.passThrough || false} onChange={(e) => updateMapping(map.id, { passThrough: e.target.checked || undefined })} className="w-3 h-3 accent-indigo-500" />
+                      <span className="text-[8px] font-black text-slate-600 uppercase">Thru</span>
+                    </label>
+                    <InputDeviceSelect value={map.inputDeviceId} onChange={(inputDeviceId) => updateMapping(map.id, { inputDeviceId })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500 min-w-0 flex-1" />
                  </div>
                </div>
 
@@ -191,6 +212,35 @@ export const MappingEditor: React.FC<MappingEditorProps> = ({ song, onUpdateSong
                    <option value="sequence">Sequence</option>
                    <option value="switch_scene">Switch Scene</option>
                  </select>
+                 {(map.actionType === 'preset' || map.actionType === 'sequence') && (
+                   <div className="flex items-center gap-2 mt-1 px-1">
+                     <span className="text-[8px] font-black text-slate-600 uppercase">Launch</span>
+                     <select value={map.launchQuantize ?? ''} onChange={(e) => updateMapping(map.id, { launchQuantize: (e.target.value || undefined) as LaunchQuantize | undefined })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500">
+                       <option value="">{map.actionType === 'sequence' ? 'SEQ DEFAULT' : 'IMMEDIATE'}</option>
+                       {map.actionType === 'sequence' && <option value="none">IMMEDIATE</option>}
+                       <option value="quarter_beat">1/4 BEAT</option>
+                       <option value="beat">BEAT</option>
+                       <option value="bar">BAR</option>
+                     </select>
+                   </div>
+                 )}
+                 {(map.actionType === 'preset' || map.actionType === 'sequence') && (
+                   <div className="flex items-center gap-2 px-1">
+                     <span className="text-[8px] font-black text-slate-600 uppercase">Vel</span>
+                     <select value={map.velocityMode ?? 'fixed'} onChange={(e) => updateMapping(map.id, { velocityMode: e.target.value as VelocityMode })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500" title="How the incoming MIDI velocity affects the stored velocities">
+                       <option value="fixed">FIXED</option>
+                       <option value="scale">SCALE</option>
+                       <option value="replace">REPLACE</option>
+                     </select>
+                     {map.velocityMode && map.velocityMode !== 'fixed' && (
+                       <select value={map.velocityCurve ?? 'linear'} onChange={(e) => updateMapping(map.id, { velocityCurve: e.target.value as VelocityCurve })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500">
+                         <option value="linear">LINEAR</option>
+                         <option value="soft">SOFT</option>
+                         <option value="hard">HARD</option>
+                       </select>
+                     )}
+                   </div>
+                 )}
                </div>
 
                {/* Column 5: Target */}
@@ -1,9 +1,14 @@
 
 import React, { useState, useMemo } from 'react';
-import { NotePreset, Song, NoteItem } from '../../types';
+import { NotePreset, Song, NoteItem, ArpPattern, ScaleType, GlissandoConfig, GlissandoAcceleration, GlissandoVelocityCurve, GlissandoEarlyRelease, ControllerEvent, ControllerEventType, SysExEvent, OutputDestination } from '../../types';
+import { SCALE_LABELS } from '../../engine/scales';
+import { CONTROLLER_RANGES, clampControllerValue } from '../../engine/controllerEvents';
+import { parseSysExHex } from '../../engine/sysex';
 import { v4 as uuidv4 } from 'uuid';
 import { PianoView, midiToNoteName } from './PianoView';
-import { UnitSelector } from './Common';
+import { UnitSelector, HumanizeControls, ProgramChangeControls } from './Common';
+
+const PITCH_CLASS_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
 
 interface PresetEditorProps {
   preset: NotePreset;
@@ -11,10 +16,12 @@ interface PresetEditorProps {
   onUpdate: (u: Partial<NotePreset>) => void;
   sendNoteOn: any;
   sendNoteOff: any;
+  previewGlissando: (config: GlissandoConfig, channel: number, destinationId?: string) => void;
+  destinations: OutputDestination[];
 }
 
-export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpdate, sendNoteOn, sendNoteOff }) => {
-  const [activeTab, setActiveTab] = useState<'notes' | 'glissando'>('notes');
+export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpdate, sendNoteOn, sendNoteOff, previewGlissando, destinations }) => {
+  const [activeTab, setActiveTab] = useState<'notes' | 'glissando' | 'arpeggiator'>('notes');
   const [defaultChannel, setDefaultChannel] = useState(1);
 
   const activePitches = useMemo(() => new Set(preset.notes.map(n => n.pitch)), [preset.notes]);
@@ -28,6 +35,39 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
     onUpdate({ notes: preset.notes.map(n => n.id === id ? { ...n, ...u } : n) });
   };
 
+  const addController = () => {
+    const controller: ControllerEvent = { id: uuidv4(), type: 'cc', channel: defaultChannel, controller: 1, value: 0, preDelay: 0 };
+    onUpdate({ controllers: [...(preset.controllers ?? []), controller] });
+  };
+
+  const updateController = (id: string, u: Partial<ControllerEvent>) => {
+    onUpdate({ controllers: (preset.controllers ?? []).map(c => c.id === id ? { ...c, ...u } : c) });
+  };
+
+  const removeController = (id: string) => {
+    const controllers = (preset.controllers ?? []).filter(c => c.id !== id);
+    onUpdate({ controllers: controllers.length > 0 ? controllers : undefined });
+  };
+
+  const addSysEx = () => {
+    onUpdate({ sysex: [...(preset.sysex ?? []), { id: uuidv4(), hex: 'F0 F7', preDelay: 0 }] });
+  };
+
+  const updateSysEx = (id: string, u: Partial<SysExEvent>) => {
+    onUpdate({ sysex: (preset.sysex ?? []).map(x => x.id === id ? { ...x, ...u } : x) });
+  };
+
+  const removeSysEx = (id: string) => {
+    const sysex = (preset.sysex ?? []).filter(x => x.id !== id);
+    onUpdate({ sysex: sysex.length > 0 ? sysex : undefined });
+  };
+
+  const toggleCustomPitchClass = (pc: number) => {
+    const current = preset.glissando!.customPitchClasses ?? [];
+    const next = current.includes(pc) ? current.filter(p => p !== pc) : [...current, pc].sort((a, b) => a - b);
+    onUpdate({ glissando: { ...preset.glissando!, customPitchClasses: next } });
+  };
+
   const removeNote = (id: string) => {
     onUpdate({ notes: preset.notes.filter(n => n.id !== id) });
   };
@@ -57,9 +97,25 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
               <span className="text-[9px] font-black text-slate-500 uppercase px-2">Test Ch</span>
               <input type="number" min="1" max="16" value={defaultChannel} onChange={(e) => setDefaultChannel(parseInt(e.target.value) || 1)} className="bg-slate-900 text-[11px] font-bold w-12 p-1.5 rounded-lg border border-slate-700 outline-none text-slate-200 text-center focus:border-indigo-500" />
             </div>
+            {destinations.length > 0 && (
+              <div className="flex items-center gap-2 bg-slate-800 p-2 rounded-xl border border-slate-700 shadow-inner" title="Where the preset's notes, controllers and messages are sent">
+                <span className="text-[9px] font-black text-slate-500 uppercase px-2">Output</span>
+                <select
+                  value={preset.destinationId || ''}
+                  onChange={(e) => onUpdate({ destinationId: e.target.value || undefined })}
+                  className="bg-slate-900 text-[11px] font-bold p-1.5 rounded-lg border border-slate-700 outline-none text-slate-200 focus:border-indigo-500"
+                >
+                  <option value="">Master</option>
+                  {destinations.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </div>
+            )}
+            <ProgramChangeControls value={preset.programChange} defaultChannel={preset.notes[0]?.channel || defaultChannel} onChange={(programChange) => onUpdate({ programChange })} />
+            <HumanizeControls value={preset.humanize} onChange={(humanize) => onUpdate({ humanize })} />
             <div className="flex bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl">
               <button onClick={() => setActiveTab('notes')} className={`px-6 py-2.5 text-[10px] font-black uppercase rounded-xl transition-all ${activeTab === 'notes' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Notes List</button>
               <button onClick={() => setActiveTab('glissando')} className={`px-6 py-2.5 text-[10px] font-black uppercase rounded-xl transition-all ${activeTab === 'glissando' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Glissando</button>
+              <button onClick={() => setActiveTab('arpeggiator')} className={`px-6 py-2.5 text-[10px] font-black uppercase rounded-xl transition-all ${activeTab === 'arpeggiator' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Arpeggiator</button>
             </div>
           </div>
         </div>
@@ -82,7 +138,7 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
                         <span className="text-[9px] text-slate-500 uppercase font-black">Pitch ({midiToNoteName(note.pitch)})</span>
                         <div className="flex gap-2">
                             <input type="number" min="0" max="127" value={note.pitch} onChange={(e) => updateNote(note.id, { pitch: parseInt(e.target.value) || 0 })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 flex-1 focus:border-indigo-500" />
-                            <button onMouseDown={() => sendNoteOn(note.pitch, note.velocity, note.channel, null)} onMouseUp={() => sendNoteOff(note.pitch, note.channel)} className="p-3.5 bg-indigo-600/10 text-indigo-400 rounded-2xl hover:bg-indigo-600 hover:text-white transition-all shadow-inner border border-indigo-500/10"><svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg></button>
+                            <button onMouseDown={() => sendNoteOn(note.pitch, note.velocity, note.channel, null, undefined, note.destinationId ?? preset.destinationId)} onMouseUp={() => sendNoteOff(note.pitch, note.channel, undefined, note.destinationId ?? preset.destinationId)} className="p-3.5 bg-indigo-600/10 text-indigo-400 rounded-2xl hover:bg-indigo-600 hover:text-white transition-all shadow-inner border border-indigo-500/10"><svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg></button>
                         </div>
                       </div>
                       <div className="flex flex-col gap-2">
@@ -92,6 +148,12 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
                       <div className="flex flex-col gap-2">
                         <span className="text-[9px] text-slate-500 uppercase font-black">Channel</span>
                         <input type="number" min="1" max="16" value={note.channel} onChange={(e) => updateNote(note.id, { channel: parseInt(e.target.value) || 1 })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500" />
+                        {destinations.length > 0 && (
+                          <select value={note.destinationId || ''} onChange={(e) => updateNote(note.id, { destinationId: e.target.value || undefined })} className="bg-slate-950 text-[10px] font-bold p-2 rounded-xl border border-slate-700 outline-none text-slate-400 focus:border-indigo-500" title="Output destination for this note">
+                            <option value="">Preset Output</option>
+                            {destinations.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                          </select>
+                        )}
                       </div>
                       <div className="flex flex-col gap-2">
                         <span className="text-[9px] text-slate-500 uppercase font-black">Delay (ms)</span>
@@ -115,21 +177,110 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
                     </div>
                   )}
               </div>
+
+              <div className="flex items-center justify-between pt-6 pb-3 border-b border-slate-800/50">
+                  <h4 className="text-[11px] font-black uppercase text-slate-500 tracking-widest">Controllers / Pitch Bend</h4>
+                  <button onClick={addController} className="bg-slate-800 hover:bg-slate-700 text-[10px] font-black uppercase px-6 py-3 rounded-2xl transition-all shadow-xl border border-slate-700 active:scale-95">+ Add Controller</button>
+              </div>
+              <div className="grid grid-cols-1 gap-4">
+                  {(preset.controllers ?? []).map((ctl) => {
+                    const range = CONTROLLER_RANGES[ctl.type];
+                    const valueInput = (value: number | null | undefined, placeholder: string, onChange: (v: number | null) => void) => (
+                      <input type="number" min={range.min} max={range.max} placeholder={placeholder} value={value ?? ''} onChange={(e) => onChange(e.target.value === '' ? null : clampControllerValue(ctl.type, parseInt(e.target.value) || 0))} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 placeholder:text-slate-700" />
+                    );
+                    return (
+                    <div key={ctl.id} className="grid grid-cols-[120px_80px_80px_90px_90px_90px_90px_90px_40px] gap-4 bg-slate-800/40 border border-slate-800/60 p-6 rounded-3xl items-center hover:bg-slate-800/60 transition-all group">
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Type</span>
+                        <select value={ctl.type} onChange={(e) => { const type = e.target.value as ControllerEventType; updateController(ctl.id, { type, value: CONTROLLER_RANGES[type].centre, rampTo: undefined, resetValue: ctl.resetValue === null || ctl.resetValue === undefined ? ctl.resetValue : CONTROLLER_RANGES[type].centre }); }} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                          <option value="cc">CC</option>
+                          <option value="pitch_bend">Pitch Bend</option>
+                          <option value="pressure">Pressure</option>
+                        </select>
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">CC #</span>
+                        <input type="number" min="0" max="127" disabled={ctl.type !== 'cc'} value={ctl.type === 'cc' ? ctl.controller : ''} onChange={(e) => updateController(ctl.id, { controller: Math.min(127, Math.max(0, parseInt(e.target.value) || 0)) })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 disabled:opacity-30" />
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Channel</span>
+                        <input type="number" min="1" max="16" value={ctl.channel} onChange={(e) => updateController(ctl.id, { channel: parseInt(e.target.value) || 1 })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500" />
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Delay (ms)</span>
+                        <input type="number" min="0" value={ctl.preDelay} onChange={(e) => updateController(ctl.id, { preDelay: parseInt(e.target.value) || 0 })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500" />
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Value</span>
+                        {valueInput(ctl.value, '0', (v) => updateController(ctl.id, { value: v ?? range.centre }))}
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Ramp To</span>
+                        {valueInput(ctl.rampTo, 'None', (v) => updateController(ctl.id, { rampTo: v }))}
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Ramp (ms)</span>
+                        <input type="number" min="0" disabled={ctl.rampTo === null || ctl.rampTo === undefined} value={ctl.rampMs ?? 0} onChange={(e) => updateController(ctl.id, { rampMs: Math.max(0, parseInt(e.target.value) || 0) })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 disabled:opacity-30" />
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Reset</span>
+                        {valueInput(ctl.resetValue, 'None', (v) => updateController(ctl.id, { resetValue: v }))}
+                      </div>
+                      <button onClick={() => removeController(ctl.id)} className="text-slate-700 hover:text-rose-500 transition-all p-2 mt-6 opacity-40 group-hover:opacity-100"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                    </div>
+                    );
+                  })}
+              </div>
+
+              <div className="flex items-center justify-between pt-6 pb-3 border-b border-slate-800/50">
+                  <h4 className="text-[11px] font-black uppercase text-slate-500 tracking-widest">SysEx Messages</h4>
+                  <button onClick={addSysEx} className="bg-slate-800 hover:bg-slate-700 text-[10px] font-black uppercase px-6 py-3 rounded-2xl transition-all shadow-xl border border-slate-700 active:scale-95">+ Add SysEx</button>
+              </div>
+              <div className="grid grid-cols-1 gap-4">
+                  {(preset.sysex ?? []).map((msg) => {
+                    const { error } = parseSysExHex(msg.hex);
+                    return (
+                    <div key={msg.id} className="grid grid-cols-[1fr_100px_40px] gap-6 bg-slate-800/40 border border-slate-800/60 p-6 rounded-3xl items-start hover:bg-slate-800/60 transition-all group">
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Message (hex, F0 … F7)</span>
+                        <input spellCheck={false} value={msg.hex} onChange={(e) => updateSysEx(msg.id, { hex: e.target.value })} placeholder="F0 43 10 4C 00 00 7E 00 F7" className={`bg-slate-950 text-[12px] font-mono font-bold p-3.5 rounded-2xl border outline-none text-slate-200 placeholder:text-slate-700 ${error ? 'border-rose-500/60 focus:border-rose-500' : 'border-slate-700 focus:border-indigo-500'}`} />
+                        {error && <span className="text-[9px] font-black text-rose-400 uppercase">{error}</span>}
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Delay (ms)</span>
+                        <input type="number" min="0" value={msg.preDelay} onChange={(e) => updateSysEx(msg.id, { preDelay: parseInt(e.target.value) || 0 })} className="bg-slate-950 text-[12px] font-bold p-3.5 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500" />
+                      </div>
+                      <button onClick={() => removeSysEx(msg.id)} className="text-slate-700 hover:text-rose-500 transition-all p-2 mt-6 opacity-40 group-hover:opacity-100"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                    </div>
+                    );
+                  })}
+              </div>
             </div>
           </>
-        ) : (
+        ) : activeTab === 'glissando' ? (
           <div className="flex-1 overflow-y-auto space-y-12 pr-3 custom-scrollbar p-10 bg-slate-900/40 rounded-[40px] border border-slate-800/60 shadow-inner">
             <div className="flex items-center justify-between">
               <div>
                 <h4 className="text-xl font-black text-indigo-400 tracking-tight">Glissando Performance</h4>
                 <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Automatic "Roll-up" effect for chord triggers</p>
               </div>
-              <button 
-                onClick={() => onUpdate({ glissando: preset.glissando ? undefined : { attackEnabled: true, releaseEnabled: false, lowestNote: 48, targetNote: 60, speed: 50, mode: 'white', lowestVelocity: 0.5, targetVelocity: 0.8 } })} 
-                className={`px-8 py-4 rounded-2xl text-[11px] font-black uppercase transition-all shadow-2xl ${preset.glissando ? 'bg-rose-600/10 text-rose-500 border border-rose-500/20' : 'bg-indigo-600 text-white'}`}
-              >
-                {preset.glissando ? 'Disable Component' : 'Enable Component'}
-              </button>
+              <div className="flex gap-3">
+                {preset.glissando && (
+                  <button 
+                    onClick={() => previewGlissando(preset.glissando!, preset.notes[0]?.channel || defaultChannel, preset.destinationId)} 
+                    className="flex items-center gap-2 px-8 py-4 rounded-2xl text-[11px] font-black uppercase transition-all shadow-2xl bg-slate-800 text-indigo-300 border border-slate-700 hover:bg-slate-700"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                    Preview
+                  </button>
+                )}
+                <button 
+                  onClick={() => onUpdate({ glissando: preset.glissando ? undefined : { attackEnabled: true, releaseEnabled: false, lowestNote: 48, targetNote: 60, speed: 50, mode: 'white', lowestVelocity: 0.5, targetVelocity: 0.8 } })} 
+                  className={`px-8 py-4 rounded-2xl text-[11px] font-black uppercase transition-all shadow-2xl ${preset.glissando ? 'bg-rose-600/10 text-rose-500 border border-rose-500/20' : 'bg-indigo-600 text-white'}`}
+                >
+                  {preset.glissando ? 'Disable Component' : 'Enable Component'}
+                </button>
+              </div>
             </div>
 
             {preset.glissando ? (
@@ -170,11 +321,38 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
                     <div className="flex flex-col gap-3">
                       <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Note Range Selection</span>
                       <div className="flex bg-slate-900 p-1.5 rounded-2xl border border-slate-700">
-                        {(['white', 'black', 'both'] as const).map(m => (
+                        {(['white', 'black', 'both', 'scale'] as const).map(m => (
                           <button key={m} onClick={() => onUpdate({ glissando: { ...preset.glissando!, mode: m }})} className={`flex-1 py-3 text-[10px] font-black uppercase rounded-xl transition-all ${preset.glissando?.mode === m ? 'bg-slate-700 text-white shadow-inner' : 'text-slate-500 hover:text-slate-300'}`}>{m}</button>
                         ))}
                       </div>
                     </div>
+                    {preset.glissando.mode === 'scale' && (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-6">
+                          <div className="flex flex-col gap-2.5">
+                            <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Scale</span>
+                            <select value={preset.glissando.scale ?? 'major'} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, scale: e.target.value as ScaleType }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                              {(Object.keys(SCALE_LABELS) as ScaleType[]).map(scale => <option key={scale} value={scale}>{SCALE_LABELS[scale]}</option>)}
+                            </select>
+                          </div>
+                          {preset.glissando.scale !== 'custom' && (
+                            <div className="flex flex-col gap-2.5">
+                              <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Root</span>
+                              <select value={preset.glissando.scaleRoot ?? 0} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, scaleRoot: parseInt(e.target.value) }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                                {PITCH_CLASS_NAMES.map((name, pc) => <option key={pc} value={pc}>{name}</option>)}
+                              </select>
+                            </div>
+                          )}
+                        </div>
+                        {preset.glissando.scale === 'custom' && (
+                          <div className="flex bg-slate-900 p-1.5 rounded-2xl border border-slate-700 gap-1">
+                            {PITCH_CLASS_NAMES.map((name, pc) => (
+                              <button key={pc} onClick={() => toggleCustomPitchClass(pc)} className={`flex-1 py-3 text-[10px] font-black uppercase rounded-xl transition-all ${preset.glissando?.customPitchClasses?.includes(pc) ? 'bg-indigo-600 text-white shadow-inner' : 'text-slate-500 hover:text-slate-300'}`}>{name}</button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -196,6 +374,45 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
                         <input type="range" min="0" max="1" step="0.01" value={preset.glissando.targetVelocity} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, targetVelocity: parseFloat(e.target.value) }})} className="w-full h-1.5 bg-slate-800 rounded-full appearance-none accent-indigo-500" />
                      </div>
                    </div>
+                   <div className="grid grid-cols-2 gap-6">
+                     <div className="flex flex-col gap-2.5">
+                       <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Velocity Curve</span>
+                       <select value={preset.glissando.velocityCurve ?? 'linear'} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, velocityCurve: e.target.value as GlissandoVelocityCurve }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                         <option value="linear">Linear</option>
+                         <option value="exponential">Exponential</option>
+                         <option value="logarithmic">Logarithmic</option>
+                         <option value="s_curve">S-Curve</option>
+                       </select>
+                     </div>
+                     <div className="flex flex-col gap-2.5">
+                       <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Acceleration</span>
+                       <select value={preset.glissando.acceleration ?? 'none'} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, acceleration: e.target.value as GlissandoAcceleration }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                         <option value="none">Even</option>
+                         <option value="ease_in">Speed Up</option>
+                         <option value="ease_out">Slow Down</option>
+                         <option value="ease_in_out">Slow-Fast-Slow</option>
+                       </select>
+                     </div>
+                   </div>
+                   <div className="space-y-4">
+                      <div className="flex justify-between text-xs font-bold">
+                        <span className="text-slate-500 uppercase">Legato Overlap</span>
+                        <span className="text-indigo-400 font-black">{Math.round((preset.glissando.legato ?? 0) * 100)}%</span>
+                      </div>
+                      <input type="range" min="0" max="1" step="0.05" value={preset.glissando.legato ?? 0} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, legato: parseFloat(e.target.value) }})} className="w-full h-1.5 bg-slate-800 rounded-full appearance-none accent-indigo-500" />
+                   </div>
+                   <div className="flex flex-col gap-2.5">
+                     <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Released Mid-Run</span>
+                     <select value={preset.glissando.earlyRelease ?? 'finish'} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, earlyRelease: e.target.value as GlissandoEarlyRelease }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                       <option value="finish">Finish the run</option>
+                       <option value="abort">Stop immediately</option>
+                       <option value="jump_to_release">Jump to release run</option>
+                     </select>
+                   </div>
+                   <label className="flex items-center gap-4 cursor-pointer">
+                     <input type="checkbox" checked={preset.glissando.sustainLastNote || false} onChange={(e) => onUpdate({ glissando: { ...preset.glissando!, sustainLastNote: e.target.checked }})} className="w-6 h-6 accent-indigo-500 cursor-pointer" />
+                     <span className="text-sm font-bold text-slate-300">Hold the landing note with the chord</span>
+                   </label>
                    <div className="p-6 bg-indigo-500/5 rounded-3xl border border-indigo-500/10 text-[11px] text-slate-400 font-medium leading-relaxed">
                      <p>Glissando creates a sequence of notes from the "Start Pitch" to the "End Pitch". It's triggered either when you press the mapped key (Attack) or when you release it (Release).</p>
                    </div>
@@ -208,6 +425,62 @@ export const PresetEditor: React.FC<PresetEditorProps> = ({ preset, song, onUpda
               </div>
             )}
           </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-12 pr-3 custom-scrollbar p-10 bg-slate-900/40 rounded-[40px] border border-slate-800/60 shadow-inner">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-xl font-black text-indigo-400 tracking-tight">Arpeggiator</h4>
+                <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Plays the notes one by one in time with the song / sequence BPM</p>
+              </div>
+              <button 
+                onClick={() => onUpdate({ arpeggiator: preset.arpeggiator?.enabled ? { ...preset.arpeggiator, enabled: false } : { pattern: 'up', rate: 0.25, octaves: 1, gate: 0.8, cycles: null, ...preset.arpeggiator, enabled: true } })} 
+                className={`px-8 py-4 rounded-2xl text-[11px] font-black uppercase transition-all shadow-2xl ${preset.arpeggiator?.enabled ? 'bg-rose-600/10 text-rose-500 border border-rose-500/20' : 'bg-indigo-600 text-white'}`}
+              >
+                {preset.arpeggiator?.enabled ? 'Disable Component' : 'Enable Component'}
+              </button>
+            </div>
+
+            {preset.arpeggiator?.enabled ? (
+              <div className="bg-slate-950 p-8 rounded-[32px] border border-slate-800 space-y-8">
+                <div className="flex flex-col gap-3">
+                  <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Pattern</span>
+                  <div className="flex bg-slate-900 p-1.5 rounded-2xl border border-slate-700">
+                    {([['up', 'Up'], ['down', 'Down'], ['up_down', 'Up-Down'], ['random', 'Random'], ['as_played', 'As Played']] as [ArpPattern, string][]).map(([p, label]) => (
+                      <button key={p} onClick={() => onUpdate({ arpeggiator: { ...preset.arpeggiator!, pattern: p }})} className={`flex-1 py-3 text-[10px] font-black uppercase rounded-xl transition-all ${preset.arpeggiator?.pattern === p ? 'bg-slate-700 text-white shadow-inner' : 'text-slate-500 hover:text-slate-300'}`}>{label}</button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-6">
+                  <div className="flex flex-col gap-2.5">
+                    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Rate (beats)</span>
+                    <select value={preset.arpeggiator.rate} onChange={(e) => onUpdate({ arpeggiator: { ...preset.arpeggiator!, rate: parseFloat(e.target.value) }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500">
+                      {[[1, '1/4'], [0.5, '1/8'], [1 / 3, '1/8T'], [0.25, '1/16'], [1 / 6, '1/16T'], [0.125, '1/32']].map(([v, label]) => <option key={label} value={v}>{label}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex flex-col gap-2.5">
+                    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Octaves</span>
+                    <input type="number" min="1" max="4" value={preset.arpeggiator.octaves} onChange={(e) => onUpdate({ arpeggiator: { ...preset.arpeggiator!, octaves: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500" />
+                  </div>
+                  <div className="flex flex-col gap-2.5">
+                    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Gate ({Math.round(preset.arpeggiator.gate * 100)}%)</span>
+                    <input type="range" min="0.05" max="1" step="0.05" value={preset.arpeggiator.gate} onChange={(e) => onUpdate({ arpeggiator: { ...preset.arpeggiator!, gate: parseFloat(e.target.value) }})} className="w-full h-1.5 mt-6 bg-slate-800 rounded-full appearance-none accent-indigo-500" />
+                  </div>
+                  <div className="flex flex-col gap-2.5">
+                    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Length</span>
+                    <input type="number" min="1" placeholder="While Held" value={preset.arpeggiator.cycles ?? ''} onChange={(e) => onUpdate({ arpeggiator: { ...preset.arpeggiator!, cycles: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value) || 1) }})} className="bg-slate-900 text-[13px] font-bold p-4 rounded-2xl border border-slate-700 outline-none text-slate-200 focus:border-indigo-500 placeholder:text-slate-700" title="Number of cycles (empty = while held)" />
+                  </div>
+                </div>
+                <div className="p-6 bg-indigo-500/5 rounded-3xl border border-indigo-500/10 text-[11px] text-slate-400 font-medium leading-relaxed">
+                  <p>The arpeggio starts after the attack glissando. With an empty length it runs until the key is released; otherwise it plays that many cycles of the pattern. Per-note delay and duration are ignored while the arpeggiator is on.</p>
+                </div>
+              </div>
+            ) : (
+              <div className="py-24 flex flex-col items-center justify-center text-slate-700 opacity-40 space-y-4">
+                 <svg className="w-16 h-16" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M4 18h3V9H4v9zm6.5 0h3V5h-3v13zM17 18h3v-6h-3v6z" /></svg>
+                 <p className="text-sm font-black uppercase tracking-[0.3em]">Arpeggiator is not active</p>
+              </div>
+            )}
+          </div>
         )}
       </div>
     </div>
@@ -1,10 +1,12 @@
 
 import React, { useState } from 'react';
-import { Sequence, Song, SequenceMode, SequenceItem } from '../../types';
+import { Sequence, Song, SequenceMode, SequenceItem, LaunchQuantize, AutoPlayMode, StepOrder } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 import { TimelineEditor } from './TimelineEditor';
 import { CompactItemEditor } from './CompactItemEditor';
 import { PianoRollEditor } from './PianoRollEditor';
+import { HumanizeControls } from './Common';
+import { getAutoLoopLength, wouldCreateSequenceCycle } from '../../engine/performanceEngine';
 
 interface SequenceEditorProps {
   sequence: Sequence;
@@ -17,12 +19,14 @@ interface SequenceEditorProps {
 
 export const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, song, onUpdate, onUpdateSong, sendNoteOn, sendNoteOff }) => {
   const [isPianoRollOpen, setIsPianoRollOpen] = useState(false);
+  // Sequences that can be placed inside this one without it ending up containing itself
+  const nestableSequences = song.sequences.filter(s => !wouldCreateSequenceCycle(song.sequences, sequence.id, s.id));
 
   const addSequenceToGroup = () => {
     const newItem: SequenceItem = {
       id: uuidv4(),
       type: 'sequence',
-      targetId: song.sequences.filter(s => s.id !== sequence.id)[0]?.id || '',
+      targetId: nestableSequences[0]?.id || '',
       beatPosition: sequence.items.length
     };
     onUpdate({ items: [...sequence.items, newItem] });
@@ -63,6 +67,70 @@ export const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, song,
               <option value={SequenceMode.GROUP}>Sequence Group (GROUP)</option>
             </select>
           </div>
+
+          <div className="flex items-center gap-4 bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl">
+            <span className="text-[10px] font-black text-slate-500 uppercase px-3">Launch</span>
+            <select 
+              value={sequence.launchQuantize || 'none'} 
+              onChange={(e) => onUpdate({ launchQuantize: e.target.value as LaunchQuantize })} 
+              className="bg-slate-900 text-[10px] font-black uppercase p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 focus:border-indigo-500 shadow-inner"
+            >
+              <option value="none">Immediate</option>
+              <option value="quarter_beat">Next 1/4 Beat</option>
+              <option value="beat">Next Beat</option>
+              <option value="bar">Next Bar</option>
+            </select>
+          </div>
+
+          {sequence.mode !== SequenceMode.AUTO && (
+            <div className="flex items-center gap-4 bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl">
+              <span className="text-[10px] font-black text-slate-500 uppercase px-3">Order</span>
+              <select 
+                value={sequence.stepOrder || 'forward'} 
+                onChange={(e) => onUpdate({ stepOrder: e.target.value as StepOrder })} 
+                className="bg-slate-900 text-[10px] font-black uppercase p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 focus:border-indigo-500 shadow-inner"
+              >
+                <option value="forward">Forward</option>
+                <option value="reverse">Reverse</option>
+                <option value="ping_pong">Ping-Pong</option>
+                <option value="random">Random</option>
+                <option value="shuffle">Shuffle (No Repeat)</option>
+              </select>
+            </div>
+          )}
+
+          <HumanizeControls value={sequence.humanize} onChange={(humanize) => onUpdate({ humanize })} />
+
+          {sequence.mode === SequenceMode.AUTO && (
+            <div className="flex items-center gap-4 bg-slate-800 p-1.5 rounded-2xl border border-slate-700 shadow-xl">
+              <span className="text-[10px] font-black text-slate-500 uppercase px-3">Play</span>
+              <select 
+                value={sequence.autoPlayMode || 'one_shot'} 
+                onChange={(e) => onUpdate({ autoPlayMode: e.target.value as AutoPlayMode })} 
+                className="bg-slate-900 text-[10px] font-black uppercase p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 focus:border-indigo-500 shadow-inner"
+              >
+                <option value="one_shot">One-Shot</option>
+                <option value="while_held">While Held</option>
+                <option value="latch">Latch</option>
+              </select>
+              <label className="flex items-center gap-2 cursor-pointer px-2">
+                <input type="checkbox" checked={!!sequence.loop} onChange={(e) => onUpdate({ loop: e.target.checked })} className="w-4 h-4 accent-indigo-500" />
+                <span className="text-[10px] font-black text-slate-400 uppercase">Loop</span>
+              </label>
+              {sequence.loop && (
+                <input 
+                  type="number" 
+                  min="0.25" 
+                  step="0.25" 
+                  value={sequence.loopLengthBeats ?? ''} 
+                  placeholder={String(getAutoLoopLength(sequence))}
+                  onChange={(e) => onUpdate({ loopLengthBeats: parseFloat(e.target.value) || undefined })} 
+                  className="w-20 bg-slate-900 text-[10px] font-black p-2.5 rounded-xl border border-slate-700 outline-none text-slate-300 text-center focus:border-indigo-500"
+                  title="Loop length in beats (empty = up to the bar after the last item)"
+                />
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -77,6 +145,7 @@ export const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, song,
                 <CompactItemEditor 
                   item={item} 
                   presets={song.presets} 
+                  sequences={nestableSequences}
                   onUpdate={(u) => onUpdate({ items: sequence.items.map(i => i.id === item.id ? {...i, ...u} : i)})}
                   onDelete={() => { onUpdate({ items: sequence.items.filter(i => i.id !== item.id)}); setEditing(null); }} 
                 />
@@ -87,7 +156,7 @@ export const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, song,
         ) : sequence.mode === SequenceMode.STEP ? (
           <div className="flex gap-6 p-6 min-h-[400px] items-start">
             {sequence.items.map((item, idx) => (
-              <div key={item.id} className="flex-shrink-0 w-72 bg-slate-800/20 p-6 rounded-[32px] relative border border-slate-800/60 hover:border-slate-700 transition-all shadow-2xl hover:bg-slate-800/40">
+              <div key={item.id} className={`flex-shrink-0 w-72 bg-slate-800/20 p-6 rounded-[32px] relative border border-slate-800/60 hover:border-slate-700 transition-all shadow-2xl hover:bg-slate-800/40 ${item.skip ? 'opacity-50' : ''}`}>
                 <div className="absolute -top-4 -left-4 w-10 h-10 bg-indigo-600 rounded-full flex items-center justify-center text-[14px] font-black shadow-2xl z-10 ring-8 ring-slate-950">{idx + 1}</div>
                 <CompactItemEditor 
                   item={item} 
@@ -138,7 +207,7 @@ export const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, song,
                         className="bg-transparent text-xl font-black text-white outline-none cursor-pointer hover:text-indigo-400 transition-colors"
                       >
                         <option value="" disabled className="bg-slate-900">Select Sequence...</option>
-                        {song.sequences.filter(s => s.id !== sequence.id).map(s => (
+                        {nestableSequences.map(s => (
                           <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>
                         ))}
                       </select>
@@ -0,0 +1,70 @@
+
+import React from 'react';
+import { Song, ProgramChange } from '../../types';
+import { ProgramChangeControls } from './Common';
+
+interface SongPatchEditorProps {
+  song: Song;
+  onUpdateSong: (song: Song) => void;
+  sendSongPrograms: () => void;
+}
+
+// Bank select + program change per channel, sent when the song is switched to
+export const SongPatchEditor: React.FC<SongPatchEditorProps> = ({ song, onUpdateSong, sendSongPrograms }) => {
+  const programChanges = song.programChanges ?? [];
+
+  const setProgramChanges = (next: ProgramChange[]) => {
+    onUpdateSong({ ...song, programChanges: next.length > 0 ? next : undefined });
+  };
+
+  const addProgramChange = () => {
+    // Next channel without a patch yet
+    const used = new Set(programChanges.map(pc => pc.channel));
+    const channel = Array.from({ length: 16 }, (_, i) => i + 1).find(ch => !used.has(ch)) ?? 1;
+    setProgramChanges([...programChanges, { channel, program: 0 }]);
+  };
+
+  const updateProgramChange = (idx: number, pc: ProgramChange | undefined) => {
+    setProgramChanges(pc ? programChanges.map((p, i) => i === idx ? pc : p) : programChanges.filter((_, i) => i !== idx));
+  };
+
+  return (
+    <div className="h-full bg-slate-900 rounded-[40px] border border-slate-800 p-12 flex flex-col shadow-2xl overflow-hidden">
+      <div className="flex justify-between items-center mb-12">
+        <div>
+          <h3 className="text-4xl font-black text-white tracking-tight">Song Patches</h3>
+          <p className="text-[11px] text-slate-500 font-black uppercase tracking-[0.2em] mt-2">Program and bank sent to the output when this song is loaded</p>
+        </div>
+        <div className="flex gap-4">
+          <button
+            onClick={sendSongPrograms}
+            disabled={programChanges.length === 0}
+            className="bg-slate-800 px-10 py-5 rounded-[24px] font-black uppercase text-[11px] text-indigo-300 border border-slate-700 hover:bg-slate-700 shadow-xl transition-all disabled:opacity-40"
+          >
+            Send Now
+          </button>
+          <button
+            onClick={addProgramChange}
+            className="bg-indigo-600 px-10 py-5 rounded-[24px] font-black uppercase text-[11px] hover:bg-indigo-500 shadow-xl transition-all"
+          >
+            + Add Channel
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 overflow-y-auto pr-4 custom-scrollbar">
+        {programChanges.map((pc, idx) => (
+          <div key={idx} className="flex items-center justify-between p-6 rounded-[32px] border bg-slate-950/40 border-slate-800 hover:bg-slate-800/20 transition-all">
+            <ProgramChangeControls value={pc} defaultChannel={pc.channel} onChange={(next) => updateProgramChange(idx, next)} />
+            <button onClick={() => updateProgramChange(idx, undefined)} className="text-slate-700 hover:text-rose-500 transition-all p-2"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+          </div>
+        ))}
+        {programChanges.length === 0 && (
+          <div className="py-24 border-2 border-dashed border-slate-800/50 rounded-[40px] flex flex-col items-center justify-center text-slate-700">
+            <p className="text-sm font-black uppercase tracking-[0.2em] opacity-40">No patches: the synth keeps its current sounds</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Song, ThruZone, OutputDestination } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+import { midiToNoteName } from './PianoView';
+
+interface ThruZoneEditorProps {
+  song: Song;
+  onUpdateSong: (song: Song) => void;
+  destinations: OutputDestination[];
+}
+
+// Keyboard splits and layers: notes no mapping consumes are played through every matching zone
+export const ThruZoneEditor: React.FC<ThruZoneEditorProps> = ({ song, onUpdateSong, destinations }) => {
+  const zones = song.thruZones ?? [];
+
+  const setZones = (next: ThruZone[]) => {
+    onUpdateSong({ ...song, thruZones: next.length > 0 ? next : undefined });
+  };
+
+  const addZone = () => {
+    const zone: ThruZone = {
+      id: uuidv4(),
+      name: `Zone ${zones.length + 1}`,
+      isEnabled: true,
+      inputChannel: 0,
+      keyRangeStart: 0,
+      keyRangeEnd: 127,
+      outputChannel: 1,
+      transpose: 0,
+      velocityScale: 1
+    };
+    setZones([...zones, zone]);
+  };
+
+  const updateZone = (id: string, u: Partial<ThruZone>) => {
+    setZones(zones.map(z => z.id === id ? { ...z, ...u } : z));
+  };
+
+  const removeZone = (id: string) => {
+    setZones(zones.filter(z => z.id !== id));
+  };
+
+  const toMidi = (raw: string) => Math.min(127, Math.max(0, parseInt(raw) || 0));
+  const inputClass = "bg-slate-900 p-3 rounded-xl text-[10px] font-bold border border-slate-700 outline-none text-slate-200 focus:border-indigo-500";
+
+  return (
+    <div className="h-full bg-slate-900 rounded-[40px] border border-slate-800 p-12 flex flex-col shadow-2xl overflow-hidden">
+      <div className="flex justify-between items-center mb-12">
+        <div>
+          <h3 className="text-4xl font-black text-white tracking-tight">MIDI Thru Zones</h3>
+          <p className="text-[11px] text-slate-500 font-black uppercase tracking-[0.2em] mt-2">Play synth parts from the keyboard. Mapped keys are consumed unless the mapping passes them through.</p>
+        </div>
+        <button
+          onClick={addZone}
+          className="bg-indigo-600 px-10 py-5 rounded-[24px] font-black uppercase text-[11px] hover:bg-indigo-500 shadow-xl transition-all"
+        >
+          + New Zone
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-4 pr-4 custom-scrollbar">
+        {zones.map(zone => (
+          <div key={zone.id} className={`grid grid-cols-[50px_1.2fr_1.5fr_0.8fr_1.2fr_0.7fr_0.7fr_40px] gap-5 bg-slate-950/40 p-6 rounded-[32px] items-end border border-slate-800 hover:bg-slate-800/30 transition-all ${!zone.isEnabled && 'opacity-40 grayscale'}`}>
+            <div className="flex flex-col items-center gap-2 self-center">
+              <label className="text-[8px] text-slate-600 font-black uppercase">On</label>
+              <input type="checkbox" checked={zone.isEnabled} onChange={(e) => updateZone(zone.id, { isEnabled: e.target.checked })} className="w-5 h-5 accent-indigo-500 cursor-pointer" />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-slate-600 font-black uppercase px-1">Name / Scene</span>
+              <input type="text" value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} className={inputClass} />
+              <select value={zone.sceneId || ''} onChange={(e) => updateZone(zone.id, { sceneId: e.target.value || undefined })} className={inputClass}>
+                <option value="">All Scenes</option>
+                {song.scenes.map(scene => <option key={scene.id} value={scene.id}>{scene.name}</option>)}
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-indigo-400 font-black uppercase px-1">Keys ({midiToNoteName(zone.keyRangeStart)} - {midiToNoteName(zone.keyRangeEnd)})</span>
+              <div className="flex gap-2">
+                <input type="number" min="0" max="127" value={zone.keyRangeStart} onChange={(e) => updateZone(zone.id, { keyRangeStart: toMidi(e.target.value) })} className={`${inputClass} w-full text-center`} />
+                <span className="pt-3 text-slate-600">..</span>
+                <input type="number" min="0" max="127" value={zone.keyRangeEnd} onChange={(e) => updateZone(zone.id, { keyRangeEnd: toMidi(e.target.value) })} className={`${inputClass} w-full text-center`} />
+              </div>
+              <div className="flex items-center gap-2 px-1">
+                <span className="text-[8px] font-black text-slate-600 uppercase">In CH</span>
+                <select value={zone.inputChannel} onChange={(e) => updateZone(zone.id, { inputChannel: parseInt(e.target.value) })} className="bg-transparent text-[9px] font-bold outline-none text-slate-500">
+                  <option value={0}>OMNI</option>
+                  {Array.from({ length: 16 }).map((_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-slate-600 font-black uppercase px-1">Out CH</span>
+              <select value={zone.outputChannel} onChange={(e) => updateZone(zone.id, { outputChannel: parseInt(e.target.value) })} className={inputClass}>
+                <option value={0}>Same</option>
+                {Array.from({ length: 16 }).map((_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-slate-600 font-black uppercase px-1">Destination</span>
+              <select value={zone.destinationId || ''} onChange={(e) => updateZone(zone.id, { destinationId: e.target.value || undefined })} className={inputClass}>
+                <option value="">Master Output</option>
+                {destinations.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-slate-600 font-black uppercase px-1">Transpose</span>
+              <input type="number" min="-48" max="48" value={zone.transpose} onChange={(e) => updateZone(zone.id, { transpose: parseInt(e.target.value) || 0 })} className={`${inputClass} text-center`} title="Semitones" />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] text-slate-600 font-black uppercase px-1">Vel %</span>
+              <input type="number" min="0" max="200" value={Math.round(zone.velocityScale * 100)} onChange={(e) => updateZone(zone.id, { velocityScale: Math.max(0, (parseFloat(e.target.value) || 0) / 100) })} className={`${inputClass} text-center`} title="Velocity scale (100 = as played)" />
+            </div>
+
+            <button onClick={() => removeZone(zone.id)} className="text-slate-700 hover:text-rose-500 transition-all p-2 self-center"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+          </div>
+        ))}
+        {zones.length === 0 && (
+          <div className="py-24 border-2 border-dashed border-slate-800/50 rounded-[40px] flex flex-col items-center justify-center text-slate-700">
+            <p className="text-sm font-black uppercase tracking-[0.2em] opacity-40">No zones: unmapped notes are not played</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 import React, { useMemo, useRef, useState } from 'react';
 import { Sequence, Song, SequenceItem, NotePreset } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
+import { getAutoLoopLength } from '../../engine/performanceEngine';
 
 interface TimelineEditorProps {
   sequence: Sequence;
@@ -70,6 +71,12 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ sequence, song,
         ))}
       </div>
 
+      {sequence.loop && (
+        <div className="absolute top-0 h-full border-l-2 border-dashed border-amber-400/60 pointer-events-none z-0" style={{ left: SIDE_PADDING + getAutoLoopLength(sequence) * BEAT_WIDTH }}>
+          <div className="absolute top-10 left-2 text-[9px] font-black text-amber-400 uppercase whitespace-nowrap">Loop ↺</div>
+        </div>
+      )}
+
       {hoverBeat !== null && (
         <div className="absolute h-full bg-indigo-500/10 pointer-events-none z-0 border-l border-indigo-500/30" style={{ left: SIDE_PADDING + hoverBeat * BEAT_WIDTH, width: BEAT_WIDTH * (sequence.gridSnap || 1.0) }}>
           <div className="absolute top-10 left-2 text-[9px] font-black text-indigo-400 uppercase whitespace-nowrap">Click to Add @ {hoverBeat.toFixed(2)}</div>
@@ -80,11 +87,15 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ sequence, song,
         {timelineItemsWithLanes.map((item) => {
           const isEditing = editingItemId === item.id;
           const targetP = song.presets.find(p => p.id === item.targetId);
-          const label = item.type === 'preset' ? (targetP?.name || "Select Preset") : `Note: ${midiToNoteName(item.noteData?.pitch || 0)}`;
+          const targetS = song.sequences.find(s => s.id === item.targetId);
+          const label = item.type === 'preset' ? (targetP?.name || "Select Preset")
+            : item.type === 'sequence' ? `Seq: ${targetS?.name || "Select Sequence"}`
+            : item.type === 'sysex' ? 'SysEx'
+            : `Note: ${midiToNoteName(item.noteData?.pitch || 0)}`;
           return (
             <div key={item.id} className="absolute pointer-events-auto transition-all" style={{ left: SIDE_PADDING + item.beatPosition * BEAT_WIDTH, top: 64 + (item.lane * 48), width: Math.max(BEAT_WIDTH * item.durationBeats, 80) }}>
               <div onClick={() => setEditingItemId(isEditing ? null : item.id)} className={`h-10 px-4 rounded-xl flex items-center gap-3 cursor-pointer border shadow-2xl transition-all overflow-hidden ${isEditing ? 'bg-indigo-600 border-indigo-300 z-50 ring-4 ring-indigo-500/40' : 'bg-slate-800 border-slate-700 hover:border-slate-500 hover:bg-slate-750 z-10'}`}>
-                <div className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${item.type === 'preset' ? 'bg-indigo-400' : 'bg-emerald-400'}`} />
+                <div className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${item.type === 'preset' ? 'bg-indigo-400' : item.type === 'sequence' ? 'bg-amber-400' : item.type === 'sysex' ? 'bg-fuchsia-400' : 'bg-emerald-400'}`} />
                 <span className="text-[10px] font-black text-white truncate flex-1 uppercase tracking-tight">{label}</span>
                 {item.overrideDuration !== null && <span className="text-[8px] bg-slate-950/80 px-2 py-0.5 rounded-full text-indigo-200 font-black">{item.overrideDuration}{item.overrideDurationUnit}</span>}
               </div>
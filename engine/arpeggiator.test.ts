@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { buildArpCycle, arpStepNote } from './arpeggiator';
+
+const n = (pitch: number) => ({ pitch, velocity: 0.8, channel: 1, preDelay: 0, duration: null, durationUnit: 'ms' as const });
+const pitches = (notes: { pitch: number }[]) => notes.map(note => note.pitch);
+
+describe('buildArpCycle', () => {
+  const chord = [n(64), n(60), n(67)];
+
+  it('orders notes by pattern', () => {
+    expect(pitches(buildArpCycle(chord, 'up', 1))).toEqual([60, 64, 67]);
+    expect(pitches(buildArpCycle(chord, 'down', 1))).toEqual([67, 64, 60]);
+    expect(pitches(buildArpCycle(chord, 'up_down', 1))).toEqual([60, 64, 67, 64]);
+    expect(pitches(buildArpCycle(chord, 'as_played', 1))).toEqual([64, 60, 67]);
+  });
+
+  it('spreads over octaves and drops notes above 127', () => {
+    expect(pitches(buildArpCycle(chord, 'up', 2))).toEqual([60, 64, 67, 72, 76, 79]);
+    expect(pitches(buildArpCycle([n(120)], 'up', 3))).toEqual([120]);
+  });
+});
+
+describe('arpStepNote', () => {
+  it('cycles through the pattern, or draws from it when random', () => {
+    const cycle = buildArpCycle([n(60), n(64)], 'up', 1);
+    expect([0, 1, 2].map(step => arpStepNote(cycle, 'up', step)?.pitch)).toEqual([60, 64, 60]);
+    expect(arpStepNote(cycle, 'random', 0, () => 0.99)?.pitch).toBe(64);
+    expect(arpStepNote([], 'up', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { ArpPattern, NoteItem } from '../types';
+
+type ArpNote = Omit<NoteItem, 'id'>;
+
+// The notes one arpeggio cycle walks through, before the pattern's direction is applied.
+// 'as_played' keeps the preset's note order; every other pattern works on ascending pitch.
+// Extra octaves repeat the whole set an octave higher each; notes above 127 are dropped.
+const spreadOctaves = (notes: ArpNote[], octaves: number, sortByPitch: boolean): ArpNote[] => {
+  const base = sortByPitch ? [...notes].sort((a, b) => a.pitch - b.pitch) : notes;
+  const out: ArpNote[] = [];
+  for (let o = 0; o < Math.max(1, octaves); o++) {
+    base.forEach(note => {
+      const pitch = note.pitch + o * 12;
+      if (pitch <= 127) out.push({ ...note, pitch });
+    });
+  }
+  return out;
+};
+
+// One cycle of the arpeggio in play order. 'random' returns the pool that steps are drawn from.
+export const buildArpCycle = (notes: ArpNote[], pattern: ArpPattern, octaves: number): ArpNote[] => {
+  const up = spreadOctaves(notes, octaves, pattern !== 'as_played');
+  switch (pattern) {
+    case 'down': return [...up].reverse();
+    // The top and bottom notes are not repeated at the turnarounds
+    case 'up_down': return up.length > 2 ? [...up, ...up.slice(1, -1).reverse()] : up;
+    default: return up;
+  }
+};
+
+// Note played on a given step (0-based, counted from the first step of the run)
+export const arpStepNote = (cycle: ArpNote[], pattern: ArpPattern, step: number, random: () => number = Math.random): ArpNote | undefined => {
+  if (cycle.length === 0) return undefined;
+  if (pattern === 'random') return cycle[Math.floor(random() * cycle.length)];
+  return cycle[step % cycle.length];
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { BeatGrid } from './beatGrid';
+
+describe('BeatGrid', () => {
+  it('finds the next beat and bar boundaries', () => {
+    const grid = new BeatGrid();
+    grid.start(1000, 120);
+    expect(grid.nextBoundary(1000, 1)).toBe(1000);
+    expect(grid.nextBoundary(1100, 1)).toBe(1500);
+    expect(grid.nextBoundary(1100, 4)).toBe(3000);
+    expect(grid.nextBoundary(1100, 0.25)).toBe(1125);
+  });
+
+  it('keeps the beat position continuous across tempo changes', () => {
+    const grid = new BeatGrid();
+    grid.start(0, 120);
+    grid.setTempo(250, 60); // half a beat in
+    expect(grid.beatAt(250)).toBeCloseTo(0.5, 9);
+    expect(grid.nextBoundary(300, 1)).toBeCloseTo(750, 9);
+  });
+
+  it('launches immediately before it is started', () => {
+    const grid = new BeatGrid();
+    expect(grid.nextBoundary(1234, 4)).toBe(1234);
+  });
+});
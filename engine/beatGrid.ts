@@ -0,0 +1,44 @@
+// Free-running beat grid used as the shared transport when no MIDI clock is running.
+// Tempo changes re-anchor the grid at the current position, so beats stay continuous.
+export class BeatGrid {
+  private anchorTime: number | null = null;
+  private anchorBeat = 0;
+  private bpm = 120;
+
+  get isStarted(): boolean {
+    return this.anchorTime !== null;
+  }
+
+  start(time: number, bpm: number) {
+    this.anchorTime = time;
+    this.anchorBeat = 0;
+    this.bpm = bpm;
+  }
+
+  stop() {
+    this.anchorTime = null;
+  }
+
+  setTempo(time: number, bpm: number) {
+    if (bpm === this.bpm) return;
+    if (this.anchorTime !== null) {
+      this.anchorBeat = this.beatAt(time);
+      this.anchorTime = time;
+    }
+    this.bpm = bpm;
+  }
+
+  beatAt(time: number): number {
+    if (this.anchorTime === null) return 0;
+    return this.anchorBeat + (time - this.anchorTime) * this.bpm / 60000;
+  }
+
+  // First multiple of `division` beats at or after `time`
+  nextBoundary(time: number, division: number): number {
+    if (this.anchorTime === null) return time;
+    const beat = this.beatAt(time);
+    // Tolerate float noise so a launch exactly on a boundary isn't pushed a whole division
+    const boundary = Math.ceil(beat / division - 1e-9) * division;
+    return this.anchorTime + (boundary - this.anchorBeat) * 60000 / this.bpm;
+  }
+}
@@ -0,0 +1,13 @@
+// Time source for the engine. Times are milliseconds in the same domain as WebMidi.time
+// (performance.now()), so they can be handed straight to the output as timestamps.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const performanceClock: Clock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
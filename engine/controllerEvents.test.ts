@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getControllerSteps, clampControllerValue, controllerTarget } from './controllerEvents';
+
+describe('getControllerSteps', () => {
+  it('sends a single value without a ramp', () => {
+    expect(getControllerSteps({ type: 'cc', value: 64 })).toEqual([{ offset: 0, value: 64 }]);
+  });
+
+  it('ramps every 10ms, skipping repeated values, and lands on the target', () => {
+    expect(getControllerSteps({ type: 'cc', value: 0, rampTo: 2, rampMs: 50 })).toEqual([
+      { offset: 0, value: 0 }, { offset: 20, value: 1 }, { offset: 40, value: 2 }
+    ]);
+    const dive = getControllerSteps({ type: 'pitch_bend', value: 0, rampTo: -8192, rampMs: 95 });
+    expect(dive).toHaveLength(11);
+    expect(dive[dive.length - 1]).toEqual({ offset: 95, value: -8192 });
+  });
+
+  it('jumps straight to the target for a zero-length ramp', () => {
+    expect(getControllerSteps({ type: 'pressure', value: 10, rampTo: 100, rampMs: 0 })).toEqual([{ offset: 0, value: 10 }, { offset: 0, value: 100 }]);
+  });
+});
+
+describe('controller values', () => {
+  it('clamps to the range of the message type', () => {
+    expect(clampControllerValue('cc', 200)).toBe(127);
+    expect(clampControllerValue('pitch_bend', 9000)).toBe(8191);
+    expect(clampControllerValue('pitch_bend', -9000)).toBe(-8192);
+  });
+
+  it('tells controllers apart by type, channel and CC number', () => {
+    expect(controllerTarget({ type: 'cc', channel: 1, controller: 11 })).not.toBe(controllerTarget({ type: 'cc', channel: 1, controller: 1 }));
+    expect(controllerTarget({ type: 'pitch_bend', channel: 2, controller: 11 })).toBe(controllerTarget({ type: 'pitch_bend', channel: 2, controller: 0 }));
+  });
+});
@@ -0,0 +1,37 @@
+import { ControllerEvent, ControllerEventType } from '../types';
+
+// Value range per message type; pitch bend is the signed 14-bit bend around centre
+export const CONTROLLER_RANGES: Record<ControllerEventType, { min: number, max: number, centre: number }> = {
+  cc: { min: 0, max: 127, centre: 0 },
+  pitch_bend: { min: -8192, max: 8191, centre: 0 },
+  pressure: { min: 0, max: 127, centre: 0 }
+};
+
+// How often a ramp sends a new value
+const RAMP_STEP_MS = 10;
+
+export const clampControllerValue = (type: ControllerEventType, value: number): number => {
+  const { min, max } = CONTROLLER_RANGES[type];
+  return Math.min(max, Math.max(min, Math.round(value)));
+};
+
+// Offsets (ms from the event's start) and values an event sends. A ramp sends a value every
+// RAMP_STEP_MS, skipping repeats, and always ends exactly on its target.
+export const getControllerSteps = (event: Pick<ControllerEvent, 'type' | 'value' | 'rampTo' | 'rampMs'>): { offset: number, value: number }[] => {
+  const from = clampControllerValue(event.type, event.value);
+  const steps = [{ offset: 0, value: from }];
+  if (event.rampTo === null || event.rampTo === undefined) return steps;
+  const to = clampControllerValue(event.type, event.rampTo);
+  const rampMs = Math.max(0, event.rampMs || 0);
+  const count = Math.ceil(rampMs / RAMP_STEP_MS);
+  for (let i = 1; i <= count; i++) {
+    const value = i === count ? to : Math.round(from + (to - from) * i / count);
+    if (value !== steps[steps.length - 1].value) steps.push({ offset: Math.min(rampMs, i * RAMP_STEP_MS), value });
+  }
+  if (count === 0 && to !== from) steps.push({ offset: 0, value: to });
+  return steps;
+};
+
+// Identifies the controller an event drives, so repeated resets of the same one are sent once
+export const controllerTarget = (event: Pick<ControllerEvent, 'type' | 'channel' | 'controller'>): string =>
+  event.type === 'cc' ? `cc-${event.channel}-${event.controller}` : `${event.type}-${event.channel}`;
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { resolvePort } from './devicePorts';
+
+const port = (id: string, name: string) => ({ id, name });
+
+describe('resolvePort', () => {
+  const names = { 'in-1': 'Keystation', 'in-2': 'Pads' };
+
+  it('keeps the stored id while it is still the same device', () => {
+    const ports = [port('in-1', 'Keystation'), port('in-9', 'Keystation')];
+    expect(resolvePort(ports, 'in-1', names)).toBe(ports[0]);
+  });
+
+  it('follows the name when the stored id now belongs to another device', () => {
+    const ports = [port('in-1', 'Pads'), port('in-3', 'Keystation')];
+    expect(resolvePort(ports, 'in-1', names)).toBe(ports[1]);
+  });
+
+  it('finds nothing when the named device is missing or was renamed', () => {
+    expect(resolvePort([port('in-3', 'Pads')], 'in-1', names)).toBeUndefined();
+    expect(resolvePort([port('in-1', 'Keystation MK3')], 'in-1', names)).toBeUndefined();
+  });
+
+  it('matches ids without a known name by id only', () => {
+    const ports = [port('in-7', 'Drum Brain')];
+    expect(resolvePort(ports, 'in-7', names)).toBe(ports[0]);
+    expect(resolvePort(ports, 'in-8', names)).toBeUndefined();
+  });
+});
@@ -0,0 +1,14 @@
+// What a MIDI port is recognised by: its id can be handed to another device after a re-plug, its name stays
+export interface NamedPort {
+  id: string;
+  name: string;
+}
+
+// The port with the stored id if it is still the same device, otherwise the first port
+// carrying the stored name. Ids without a known name match by id only.
+export const resolvePort = <T extends NamedPort>(ports: T[], id: string, names: Record<string, string>): T | undefined => {
+  const byId = ports.find(port => port.id === id);
+  const name = names[id];
+  if (!name || byId?.name === name) return byId;
+  return ports.find(port => port.name === name);
+};
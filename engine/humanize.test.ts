@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Humanizer, createRandom } from './humanize';
+
+describe('createRandom', () => {
+  it('repeats the same values for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(values);
+    values.forEach(v => { expect(v).toBeGreaterThanOrEqual(0); expect(v).toBeLessThan(1); });
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('Humanizer', () => {
+  const config = { timingMs: 10, velocity: 0.1, seed: 7 };
+
+  it('stays within the configured ranges', () => {
+    const humanizer = new Humanizer();
+    for (let i = 0; i < 50; i++) {
+      const { offsetMs, velocity } = humanizer.vary('p1', config, 0.5);
+      expect(Math.abs(offsetMs)).toBeLessThanOrEqual(10);
+      expect(Math.abs(velocity - 0.5)).toBeLessThanOrEqual(0.1 + 1e-9);
+    }
+    expect(humanizer.vary('p1', { ...config, velocity: 1 }, 0).velocity).toBeGreaterThan(0);
+  });
+
+  it('replays a seeded run after reset, per owner', () => {
+    const humanizer = new Humanizer();
+    const first = [humanizer.vary('p1', config, 0.5), humanizer.vary('p1', config, 0.5)];
+    // Another owner has its own stream
+    humanizer.vary('p2', config, 0.5);
+    humanizer.reset();
+    expect([humanizer.vary('p1', config, 0.5), humanizer.vary('p1', config, 0.5)]).toEqual(first);
+  });
+});
@@ -0,0 +1,49 @@
+import { HumanizeConfig } from '../types';
+
+// Lowest velocity humanize may produce; a note-on with velocity 0 would be read as a note-off
+const MIN_VELOCITY = 1 / 127;
+
+// mulberry32: tiny seeded PRNG, good enough for musical jitter
+export const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Random timing/velocity variation per note. Seeded owners (a preset or sequence) draw from
+// their own stream, which starts over on reset() so a rehearsal can be replayed exactly.
+export class Humanizer {
+  private streams = new Map<string, () => number>();
+
+  // Offset in ms to add to the note's start and the varied 0-1 velocity
+  vary(ownerId: string, config: HumanizeConfig, velocity: number): { offsetMs: number, velocity: number } {
+    const random = this.stream(ownerId, config.seed);
+    // Always draw both values so the sequence of a seeded stream doesn't depend on which ranges are set
+    const timing = random() * 2 - 1;
+    const vel = random() * 2 - 1;
+    return {
+      offsetMs: timing * (config.timingMs || 0),
+      velocity: Math.min(1, Math.max(MIN_VELOCITY, velocity + vel * (config.velocity || 0)))
+    };
+  }
+
+  reset() {
+    this.streams.clear();
+  }
+
+  private stream(ownerId: string, seed: number | null | undefined): () => number {
+    if (seed === null || seed === undefined) return Math.random;
+    const key = `${ownerId}:${seed}`;
+    let random = this.streams.get(key);
+    if (!random) {
+      random = createRandom(seed);
+      this.streams.set(key, random);
+    }
+    return random;
+  }
+}
@@ -0,0 +1,86 @@
+// Lookahead scheduler
+// Events are queued with an absolute time (engine clock domain, same as WebMidi.time by default)
+// and handed out a little ahead of time so the caller can pass the exact timestamp to the
+// webmidi Output. A busy main thread then only delays the *dispatch*, not the MIDI message.
+
+import { Clock, performanceClock } from './clock';
+
+export type ScheduledCallback = (time: number) => void;
+
+interface ScheduledEvent {
+  id: number;
+  time: number;
+  run: ScheduledCallback;
+}
+
+export class LookaheadScheduler {
+  private queue: ScheduledEvent[] = [];
+  private nextId = 1;
+  private timer: unknown = null;
+
+  constructor(
+    private clock: Clock = performanceClock,
+    private lookaheadMs: number = 40, // how far ahead of "now" events are dispatched
+    private intervalMs: number = 15   // how often the queue is checked while it is non-empty
+  ) {}
+
+  now(): number {
+    return this.clock.now();
+  }
+
+  // Schedule a callback for an absolute time. Returns an id usable with cancel().
+  schedule(time: number, run: ScheduledCallback): number {
+    const event: ScheduledEvent = { id: this.nextId++, time, run };
+    // Keep the queue sorted by time (stable for equal times, so note-off before note-on is preserved)
+    let idx = this.queue.length;
+    while (idx > 0 && this.queue[idx - 1].time > time) idx--;
+    this.queue.splice(idx, 0, event);
+    this.flush();
+    return event.id;
+  }
+
+  scheduleIn(delayMs: number, run: ScheduledCallback): number {
+    return this.schedule(this.now() + Math.max(0, delayMs), run);
+  }
+
+  cancel(id: number | null | undefined): void {
+    if (id === null || id === undefined) return;
+    const idx = this.queue.findIndex(e => e.id === id);
+    if (idx !== -1) this.queue.splice(idx, 1);
+    if (this.queue.length === 0) this.stopTimer();
+  }
+
+  cancelAll(): void {
+    this.queue = [];
+    this.stopTimer();
+  }
+
+  private flush = () => {
+    const horizon = this.now() + this.lookaheadMs;
+    // Callbacks may schedule follow-up events (e.g. note-off after note-on), which land in the same loop
+    while (this.queue.length > 0 && this.queue[0].time <= horizon) {
+      const event = this.queue.shift()!;
+      try {
+        event.run(event.time);
+      } catch (err) {
+        console.error('Scheduled MIDI event failed:', err);
+      }
+    }
+    if (this.queue.length > 0) this.startTimer();
+    else this.stopTimer();
+  };
+
+  private startTimer() {
+    if (this.timer !== null) return;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.intervalMs);
+  }
+
+  private stopTimer() {
+    if (this.timer === null) return;
+    this.clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { MidiClockFollower, MIDI_CLOCK_PPQN } from './midiClockFollower';
+
+const feed = (follower: MidiClockFollower, bpm: number, ticks: number, from: number = 0) => {
+  const interval = 60000 / (bpm * MIDI_CLOCK_PPQN);
+  for (let i = 0; i < ticks; i++) follower.tick(from + i * interval);
+  return from + ticks * interval;
+};
+
+describe('MidiClockFollower', () => {
+  it('measures tempo from 24-PPQN ticks', () => {
+    const follower = new MidiClockFollower();
+    feed(follower, 128, 48);
+    expect(follower.bpm).toBeCloseTo(128, 5);
+  });
+
+  it('waits for a few ticks before reporting a tempo', () => {
+    const follower = new MidiClockFollower();
+    feed(follower, 120, 3);
+    expect(follower.bpm).toBeNull();
+  });
+
+  it('follows tempo changes within a beat', () => {
+    const follower = new MidiClockFollower();
+    const end = feed(follower, 100, 48);
+    feed(follower, 140, MIDI_CLOCK_PPQN + 1, end);
+    expect(follower.bpm).toBeCloseTo(140, 5);
+  });
+
+  it('treats a long gap as a dropout rather than a tempo', () => {
+    const follower = new MidiClockFollower();
+    const end = feed(follower, 120, 48);
+    follower.tick(end + 2000);
+    expect(follower.bpm).toBeCloseTo(120, 5);
+  });
+
+  it('predicts the next bar boundary from the ticks since Start', () => {
+    const follower = new MidiClockFollower();
+    follower.start();
+    // 30 ticks at 120 BPM: last tick (position 29) at 29 * 500/24 ms
+    feed(follower, 120, 30);
+    expect(follower.nextBoundary(24 * 4)).toBeCloseTo(96 * 500 / 24, 5);
+    expect(follower.nextBoundary(24)).toBeCloseTo(48 * 500 / 24, 5);
+  });
+
+  it('tracks Start/Stop/Continue', () => {
+    const follower = new MidiClockFollower();
+    follower.start();
+    expect(follower.isRunning).toBe(true);
+    follower.stop();
+    expect(follower.isRunning).toBe(false);
+    follower.continue();
+    expect(follower.isRunning).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+// Measures tempo from incoming 24-PPQN MIDI clock and tracks Start/Stop/Continue.
+export const MIDI_CLOCK_PPQN = 24;
+
+// Ticks further apart than this (< ~10 BPM) are treated as a dropout, not a tempo
+const MAX_TICK_INTERVAL_MS = 250;
+// Tempo is the average over the last beat worth of ticks
+const WINDOW_SIZE = MIDI_CLOCK_PPQN;
+// Don't report a tempo until a few ticks have been measured
+const MIN_INTERVALS = 6;
+
+export class MidiClockFollower {
+  private lastTickTime: number | null = null;
+  private intervals: number[] = [];
+  private tickCount = 0; // ticks since Start while running
+  public bpm: number | null = null;
+  public isRunning: boolean = false;
+
+  // Returns true when the measured tempo changed
+  tick(time: number): boolean {
+    const last = this.lastTickTime;
+    this.lastTickTime = time;
+    if (this.isRunning) this.tickCount++;
+    if (last === null) return false;
+
+    const interval = time - last;
+    if (interval <= 0) return false;
+    if (interval > MAX_TICK_INTERVAL_MS) {
+      this.intervals = [];
+      return false;
+    }
+
+    this.intervals.push(interval);
+    if (this.intervals.length > WINDOW_SIZE) this.intervals.shift();
+    if (this.intervals.length < MIN_INTERVALS) return false;
+
+    const avg = this.intervals.reduce((a, b) => a + b, 0) / this.intervals.length;
+    const prev = this.bpm;
+    this.bpm = 60000 / (avg * MIDI_CLOCK_PPQN);
+    return prev === null || Math.abs(prev - this.bpm) >= 0.01;
+  }
+
+  // Expected time of the next tick whose position is a multiple of `divisionTicks`,
+  // or null while stopped or not yet locked
+  nextBoundary(divisionTicks: number): number | null {
+    if (!this.isRunning || this.bpm === null || this.lastTickTime === null) return null;
+    // The last received tick is position tickCount - 1
+    const boundary = Math.ceil(this.tickCount / divisionTicks) * divisionTicks;
+    return this.lastTickTime + (boundary - this.tickCount + 1) * 60000 / (this.bpm * MIDI_CLOCK_PPQN);
+  }
+
+  start() {
+    this.isRunning = true;
+    this.lastTickTime = null;
+    this.tickCount = 0;
+  }
+
+  continue() {
+    this.isRunning = true;
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.lastTickTime = null;
+  }
+
+  reset() {
+    this.lastTickTime = null;
+    this.tickCount = 0;
+    this.intervals = [];
+    this.bpm = null;
+    this.isRunning = false;
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MidiClockMaster } from './midiClockMaster';
+import { MidiTransportPort } from './midiOutputPort';
+import { Clock } from './clock';
+
+type TransportMessage = { type: 'clock' | 'start' | 'stop' | 'continue' | 'spp', time?: number, value?: number };
+
+class FakeTransport implements MidiTransportPort {
+  sent: TransportMessage[] = [];
+  clock(time?: number) { this.sent.push({ type: 'clock', time }); }
+  start(time?: number) { this.sent.push({ type: 'start', time }); }
+  stop(time?: number) { this.sent.push({ type: 'stop', time }); }
+  continue(time?: number) { this.sent.push({ type: 'continue', time }); }
+  songPosition(value: number, time?: number) { this.sent.push({ type: 'spp', value, time }); }
+  ticks() { return this.sent.filter(m => m.type === 'clock'); }
+  transport() { return this.sent.filter(m => m.type !== 'clock'); }
+}
+
+const fakeClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+describe('MidiClockMaster', () => {
+  let port: FakeTransport;
+  let bpm: number;
+  let master: MidiClockMaster;
+  let t0: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    t0 = Date.now();
+    port = new FakeTransport();
+    bpm = 120;
+    master = new MidiClockMaster(fakeClock, () => bpm);
+    master.setOutput(port);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends Start followed by 24 timestamped ticks per beat', () => {
+    master.start();
+    vi.advanceTimersByTime(1000);
+    expect(port.transport()).toEqual([{ type: 'start', time: t0 }]);
+    const ticks = port.ticks().filter(m => m.time! < t0 + 1000);
+    expect(ticks).toHaveLength(48);
+    expect(ticks[24].time).toBeCloseTo(t0 + 500, 5);
+  });
+
+  it('applies tempo changes from the next uncommitted tick', () => {
+    master.start();
+    vi.advanceTimersByTime(500);
+    bpm = 60;
+    vi.advanceTimersByTime(2000);
+    const ticks = port.ticks();
+    const last = ticks[ticks.length - 1].time!;
+    expect(last - ticks[ticks.length - 2].time!).toBeCloseTo(1000 / 24, 5);
+  });
+
+  it('places Stop after the last committed tick and resumes with Continue', () => {
+    master.start();
+    vi.advanceTimersByTime(300);
+    master.stop();
+    const lastTick = port.ticks().slice(-1)[0].time!;
+    const stop = port.transport()[1];
+    expect(stop.type).toBe('stop');
+    expect(stop.time!).toBeGreaterThan(lastTick);
+
+    const tickCount = port.ticks().length;
+    vi.advanceTimersByTime(1000);
+    expect(port.ticks()).toHaveLength(tickCount);
+
+    master.continue();
+    vi.advanceTimersByTime(100);
+    expect(port.transport().map(m => m.type)).toEqual(['start', 'stop', 'continue']);
+    expect(port.ticks().length).toBeGreaterThan(tickCount);
+  });
+
+  it('cues external gear back to the bar start when aligned mid-bar', () => {
+    master.start();
+    // 1.5 bars in at 120 BPM: back to bar 2 = MIDI beat 16
+    vi.advanceTimersByTime(3000);
+    const launch = master.alignToBar();
+    expect(port.transport().slice(1)).toEqual([
+      { type: 'stop', time: launch },
+      { type: 'spp', value: 16, time: launch },
+      { type: 'continue', time: launch }
+    ]);
+    vi.advanceTimersByTime(100);
+    expect(port.ticks().find(m => m.time === launch)).toBeDefined();
+  });
+
+  it('cues external gear for a quantized launch time mid-bar, even on ticks already committed', () => {
+    master.start();
+    vi.advanceTimersByTime(2400);
+    // Beat 6 = 2.5 bars in; its tick went out with the committed window
+    const beat = t0 + 2500;
+    vi.advanceTimersByTime(90);
+    expect(port.ticks().some(m => Math.abs(m.time! - beat) < 1e-6)).toBe(true);
+
+    const launch = master.alignToBar(beat);
+    expect(launch).toBeGreaterThan(beat);
+    expect(port.transport().slice(1)).toEqual([
+      { type: 'stop', time: launch },
+      { type: 'spp', value: 16, time: launch },
+      { type: 'continue', time: launch }
+    ]);
+  });
+
+  it('leaves the transport alone for a quantized launch on a bar line', () => {
+    master.start();
+    vi.advanceTimersByTime(1900);
+    const bar = master.nextBoundary(96)!;
+    expect(bar).toBeCloseTo(t0 + 2000, 5);
+    expect(master.alignToBar(bar)).toBe(bar);
+    vi.advanceTimersByTime(200);
+    expect(master.alignToBar(bar)).toBe(bar);
+    expect(port.transport()).toEqual([{ type: 'start', time: t0 }]);
+  });
+
+  it('does not send Song Position when already on a downbeat or stopped', () => {
+    expect(master.alignToBar()).toBe(t0);
+    master.start();
+    expect(master.alignToBar()).toBeGreaterThanOrEqual(t0);
+    // Right after Start a few ticks are committed, so this is mid-bar; once realigned a
+    // second launch on the same tick is already on the downbeat
+    const count = port.transport().length;
+    master.alignToBar();
+    expect(port.transport()).toHaveLength(count);
+  });
+});
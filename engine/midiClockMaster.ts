@@ -0,0 +1,122 @@
+// Sends 24-PPQN MIDI clock and Start/Stop/Continue/Song Position so external gear can lock to us.
+// Ticks are committed a short window ahead with exact timestamps; transport messages are placed
+// right after the last committed tick, so the receiver's tick count always matches ours.
+import { Clock } from './clock';
+import { MidiTransportPort } from './midiOutputPort';
+import { MIDI_CLOCK_PPQN } from './midiClockFollower';
+
+const CLOCK_COMMIT_MS = 40;
+const CLOCK_PUMP_MS = 15;
+
+// Song Position Pointer counts MIDI beats (16th notes) of 6 ticks, up to 14 bits
+const TICKS_PER_MIDI_BEAT = MIDI_CLOCK_PPQN / 4;
+const MAX_SONG_POSITION = 16383;
+const TICKS_PER_BAR = MIDI_CLOCK_PPQN * 4;
+
+export class MidiClockMaster {
+  private port: MidiTransportPort | null = null;
+  private timer: unknown = null;
+  private nextTickTime = 0;
+  private positionTicks = 0; // ticks sent since song position 0
+  public isRunning: boolean = false;
+
+  constructor(private clock: Clock, private getBpm: () => number) {}
+
+  get hasOutput(): boolean {
+    return this.port !== null;
+  }
+
+  setOutput(port: MidiTransportPort | null) {
+    if (port === this.port) return;
+    this.halt();
+    this.isRunning = false;
+    this.port = port;
+  }
+
+  start() {
+    if (!this.port) return;
+    this.halt();
+    const time = this.clock.now();
+    this.positionTicks = 0;
+    this.port.start(time);
+    this.run(time);
+  }
+
+  continue() {
+    if (!this.port || this.isRunning) return;
+    const time = this.clock.now();
+    this.port.continue(time);
+    this.run(time);
+  }
+
+  stop() {
+    if (!this.port || !this.isRunning) return;
+    const time = this.transportTime();
+    this.halt();
+    this.isRunning = false;
+    this.port.stop(time);
+  }
+
+  // Called when an AUTO sequence launches at `time` (unset: as soon as possible). Mid-bar, external gear
+  // is cued back to the start of that bar (Stop, Song Position, Continue) so the sequence's beat 0 is their
+  // downbeat; a launch on a bar line leaves the transport alone. Returns the time the sequence should start:
+  // `time`, or the next free tick if that is later; while stopped, `time` or now.
+  alignToBar(time?: number): number {
+    if (!this.port || !this.isRunning) return time ?? this.clock.now();
+    const next = this.transportTime();
+    // Position of the launch on the tick grid; a quantized launch may fall on ticks already committed
+    const ticks = time === undefined ? this.positionTicks : Math.round(this.positionTicks + (time - this.nextTickTime) / this.tickMs());
+    if (ticks % TICKS_PER_BAR === 0) return time ?? next;
+    const start = Math.max(time ?? next, next);
+    const midiBeat = Math.min(MAX_SONG_POSITION, Math.max(0, Math.floor(ticks / TICKS_PER_BAR) * TICKS_PER_BAR / TICKS_PER_MIDI_BEAT));
+    this.halt();
+    this.port.stop(next);
+    this.port.songPosition(midiBeat, start);
+    this.port.continue(start);
+    this.positionTicks = midiBeat * TICKS_PER_MIDI_BEAT;
+    this.run(start);
+    return start;
+  }
+
+  // Time of the next uncommitted tick whose position is a multiple of `divisionTicks`, or null while stopped
+  nextBoundary(divisionTicks: number): number | null {
+    if (!this.port || !this.isRunning) return null;
+    const boundary = Math.ceil(this.positionTicks / divisionTicks) * divisionTicks;
+    return this.transportTime() + (boundary - this.positionTicks) * this.tickMs();
+  }
+
+  // Next free slot on the tick grid (everything before it has already been committed)
+  private transportTime(): number {
+    return Math.max(this.clock.now(), this.nextTickTime);
+  }
+
+  private tickMs(): number {
+    return 60000 / ((this.getBpm() || 120) * MIDI_CLOCK_PPQN);
+  }
+
+  private run(time: number) {
+    this.isRunning = true;
+    this.nextTickTime = time;
+    this.pump();
+  }
+
+  private halt() {
+    if (this.timer === null) return;
+    this.clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private pump = () => {
+    this.timer = null;
+    const port = this.port;
+    if (!port || !this.isRunning) return;
+    const horizon = this.clock.now() + CLOCK_COMMIT_MS;
+    // Read the tempo per tick so BPM changes apply from the next uncommitted tick
+    while (this.nextTickTime < horizon) {
+      port.clock(this.nextTickTime);
+      this.positionTicks++;
+      this.nextTickTime += this.tickMs();
+    }
+    this.timer = this.clock.setTimeout(this.pump, CLOCK_PUMP_MS);
+  };
+}
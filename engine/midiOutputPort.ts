@@ -0,0 +1,20 @@
+// Abstract MIDI output used by the engine. `time` is an absolute timestamp in the engine clock
+// domain; omitted means "as soon as possible".
+export interface MidiOutputPort {
+  noteOn(pitch: number, velocity: number, channel: number, time?: number): void;
+  noteOff(pitch: number, channel: number, time?: number): void;
+  controlChange(cc: number, value: number, channel: number, time?: number): void;
+  pitchBend(value: number, channel: number, time?: number): void; // -8192..8191, 0 = centre
+  channelPressure(value: number, channel: number, time?: number): void; // 0-127
+  programChange(program: number, channel: number, time?: number): void; // 0-127
+  sysex(bytes: number[], time?: number): void; // the whole message, F0 … F7
+}
+
+// Realtime/system messages for driving external gear as MIDI clock master.
+export interface MidiTransportPort {
+  clock(time?: number): void;
+  start(time?: number): void;
+  stop(time?: number): void;
+  continue(time?: number): void;
+  songPosition(midiBeats: number, time?: number): void; // MIDI beats = 16th notes
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Song, ThruZone } from '../types';
+import { getActiveThruZones, routeThruNote } from './midiThru';
+
+const zone = (id: string, extra: Partial<ThruZone> = {}): ThruZone => ({
+  id, name: id, isEnabled: true, inputChannel: 0, keyRangeStart: 0, keyRangeEnd: 127,
+  outputChannel: 0, transpose: 0, velocityScale: 1, ...extra
+});
+
+describe('routeThruNote', () => {
+  it('splits the keyboard by key range', () => {
+    const zones = [zone('bass', { keyRangeEnd: 59, outputChannel: 2 }), zone('pad', { keyRangeStart: 60, outputChannel: 3 })];
+    expect(routeThruNote(zones, 48, 0.5, 1)).toEqual([{ pitch: 48, velocity: 0.5, channel: 2, destinationId: undefined }]);
+    expect(routeThruNote(zones, 60, 0.5, 1)).toEqual([{ pitch: 60, velocity: 0.5, channel: 3, destinationId: undefined }]);
+  });
+
+  it('layers overlapping zones with their own transpose, velocity and destination', () => {
+    const zones = [zone('strings'), zone('octave', { transpose: 12, velocityScale: 0.5, destinationId: 'rack' })];
+    expect(routeThruNote(zones, 60, 0.8, 4)).toEqual([
+      { pitch: 60, velocity: 0.8, channel: 4, destinationId: undefined },
+      { pitch: 72, velocity: 0.4, channel: 4, destinationId: 'rack' }
+    ]);
+  });
+
+  it('filters by input channel and drops notes transposed out of range', () => {
+    expect(routeThruNote([zone('a', { inputChannel: 2 })], 60, 1, 1)).toEqual([]);
+    expect(routeThruNote([zone('a', { transpose: 12 })], 120, 1, 1)).toEqual([]);
+  });
+
+  it('keeps scaled velocities between 1/127 and 1', () => {
+    expect(routeThruNote([zone('a', { velocityScale: 2 })], 60, 0.8, 1)[0].velocity).toBe(1);
+    expect(routeThruNote([zone('a', { velocityScale: 0 })], 60, 0.8, 1)[0].velocity).toBe(1 / 127);
+  });
+});
+
+describe('getActiveThruZones', () => {
+  it('keeps enabled zones for every scene or the active one', () => {
+    const song = {
+      activeSceneId: 'verse',
+      thruZones: [zone('all'), zone('verse', { sceneId: 'verse' }), zone('chorus', { sceneId: 'chorus' }), zone('off', { isEnabled: false })]
+    } as Song;
+    expect(getActiveThruZones(song).map(z => z.id)).toEqual(['all', 'verse']);
+  });
+});
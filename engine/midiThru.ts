@@ -0,0 +1,25 @@
+import { Song, ThruZone } from '../types';
+
+export type ThruNote = { pitch: number, velocity: number, channel: number, destinationId?: string };
+
+// Enabled zones of the song that apply to its active scene
+export const getActiveThruZones = (song: Song): ThruZone[] =>
+  (song.thruZones ?? []).filter(zone => zone.isEnabled && (!zone.sceneId || zone.sceneId === song.activeSceneId));
+
+// The notes an incoming note (velocity 0-1) plays through the zones it falls into. Transposed
+// notes outside 0-127 are dropped; a scaled velocity stays audible, since velocity 0 is a note-off.
+export const routeThruNote = (zones: ThruZone[], pitch: number, velocity: number, channel: number): ThruNote[] =>
+  zones.flatMap(zone => {
+    const low = Math.min(zone.keyRangeStart, zone.keyRangeEnd);
+    const high = Math.max(zone.keyRangeStart, zone.keyRangeEnd);
+    if (pitch < low || pitch > high) return [];
+    if (zone.inputChannel !== 0 && zone.inputChannel !== channel) return [];
+    const out = pitch + zone.transpose;
+    if (out < 0 || out > 127) return [];
+    return [{
+      pitch: out,
+      velocity: Math.min(1, Math.max(1 / 127, velocity * zone.velocityScale)),
+      channel: zone.outputChannel || channel,
+      destinationId: zone.destinationId
+    }];
+  });
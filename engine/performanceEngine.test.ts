@@ -0,0 +1,959 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PerformanceEngine, getGlissandoSteps, getGlissandoTiming, wouldCreateSequenceCycle, shapeVelocity } from './performanceEngine';
+import { MidiOutputPort } from './midiOutputPort';
+import { Clock } from './clock';
+import { Song, NotePreset, Sequence, SequenceMode, InputMapping } from '../types';
+
+type SentMessage =
+  | { type: 'on', pitch: number, velocity: number, channel: number, time?: number }
+  | { type: 'off', pitch: number, channel: number, time?: number }
+  | { type: 'cc', cc: number, value: number, channel: number, time?: number }
+  | { type: 'bend', value: number, channel: number, time?: number }
+  | { type: 'pressure', value: number, channel: number, time?: number }
+  | { type: 'pc', program: number, channel: number, time?: number }
+  | { type: 'sysex', bytes: number[], time?: number };
+
+class FakeOutput implements MidiOutputPort {
+  sent: SentMessage[] = [];
+  noteOn(pitch: number, velocity: number, channel: number, time?: number) { this.sent.push({ type: 'on', pitch, velocity, channel, time }); }
+  noteOff(pitch: number, channel: number, time?: number) { this.sent.push({ type: 'off', pitch, channel, time }); }
+  controlChange(cc: number, value: number, channel: number, time?: number) { this.sent.push({ type: 'cc', cc, value, channel, time }); }
+  pitchBend(value: number, channel: number, time?: number) { this.sent.push({ type: 'bend', value, channel, time }); }
+  channelPressure(value: number, channel: number, time?: number) { this.sent.push({ type: 'pressure', value, channel, time }); }
+  programChange(program: number, channel: number, time?: number) { this.sent.push({ type: 'pc', program, channel, time }); }
+  sysex(bytes: number[], time?: number) { this.sent.push({ type: 'sysex', bytes, time }); }
+  of<T extends SentMessage['type']>(type: T) { return this.sent.filter((m): m is Extract<SentMessage, { type: T }> => m.type === type); }
+}
+
+// Driven by vitest fake timers: Date.now() and setTimeout advance together
+const fakeClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+const note = (id: string, pitch: number, extra: Partial<NotePreset['notes'][number]> = {}) => ({
+  id, pitch, velocity: 0.8, channel: 1, preDelay: 0, duration: null, durationUnit: 'ms' as const, ...extra
+});
+
+const makeSong = (presets: NotePreset[], sequences: Sequence[] = []): Song => ({
+  id: 'song', name: 'Test', bpm: 120, presets, presetFolders: [], sequences,
+  mappings: [], ccMappings: [], scenes: [], activeSceneId: ''
+});
+
+describe('PerformanceEngine', () => {
+  let engine: PerformanceEngine;
+  let output: FakeOutput;
+  let t0: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    t0 = Date.now();
+    output = new FakeOutput();
+    engine = new PerformanceEngine({ clock: fakeClock });
+    engine.setOutput(output);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays a preset chord on trigger and releases it', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Chord', notes: [note('a', 60), note('b', 64)] }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 64]);
+    expect(engine.getActiveNotes()).toHaveLength(2);
+
+    vi.advanceTimersByTime(100);
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 64]);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  it('timestamps preDelay and finite durations instead of firing late timeouts', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Late', notes: [note('a', 60, { preDelay: 200, duration: 1, durationUnit: 'beat' })] }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.sent).toHaveLength(0);
+
+    vi.advanceTimersByTime(1000);
+    expect(output.sent).toEqual([
+      { type: 'on', pitch: 60, velocity: 0.8, channel: 1, time: t0 + 200 },
+      { type: 'off', pitch: 60, channel: 1, time: t0 + 700 }
+    ]);
+  });
+
+  it('ref-counts the same pitch held by two sources', () => {
+    engine.setSong(makeSong([
+      { id: 'p1', name: 'A', notes: [note('a', 60)] },
+      { id: 'p2', name: 'B', notes: [note('b', 60)] }
+    ]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerPreset('p2', false, undefined, 'ms', 120, 'm2', 'l');
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    // Retrigger sent one off, but the release of p1 must not silence p2
+    expect(output.of('off')).toHaveLength(1);
+
+    engine.triggerPreset('p2', true, undefined, 'ms', 120, 'm2', 'l');
+    expect(output.of('off')).toHaveLength(2);
+  });
+
+  it('routes notes to destinations and ref-counts each destination separately', () => {
+    const sampler = new FakeOutput();
+    engine.setDestinations(new Map([['sampler', sampler], ['unplugged', null]]));
+    engine.setSong(makeSong([
+      { id: 'p1', name: 'Synth', notes: [note('a', 60), note('b', 64, { destinationId: 'sampler' })] },
+      { id: 'p2', name: 'Pad', destinationId: 'sampler', notes: [note('c', 60), note('d', 72, { destinationId: 'unplugged' })] }
+    ]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerPreset('p2', false, undefined, 'ms', 120, 'm2', 'l');
+    expect(output.of('on').map(m => m.pitch)).toEqual([60]);
+    expect(sampler.of('on').map(m => m.pitch)).toEqual([64, 60]);
+    // Pitch 60 on the main output and on the sampler are different notes: no retrigger
+    expect(output.of('off')).toHaveLength(0);
+    expect(sampler.of('off')).toHaveLength(0);
+
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.of('off').map(m => m.pitch)).toEqual([60]);
+    expect(sampler.of('off').map(m => m.pitch)).toEqual([64]);
+    expect(engine.getActiveNotes()).toEqual([expect.objectContaining({ pitch: 60, destinationId: 'sampler' })]);
+
+    engine.stopAllNotes();
+    expect(sampler.of('cc').filter(m => m.cc === 123)).toHaveLength(16);
+  });
+
+  it('counts notes sent to a deleted destination with the main output they fall back to', () => {
+    engine.setDestinations(new Map());
+    engine.setSong(makeSong([
+      { id: 'p1', name: 'Orphan', destinationId: 'deleted', notes: [note('a', 60)] },
+      { id: 'p2', name: 'Main', notes: [note('b', 60)] }
+    ]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerPreset('p2', false, undefined, 'ms', 120, 'm2', 'l');
+    const offsBefore = output.of('off').length;
+
+    // Both land on the main output: releasing one keeps the other sounding
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.of('off')).toHaveLength(offsBefore);
+    expect(engine.getActiveNotes()).toEqual([expect.objectContaining({ pitch: 60, destinationId: undefined })]);
+
+    engine.triggerPreset('p2', true, undefined, 'ms', 120, 'm2', 'l');
+    expect(output.of('off')).toHaveLength(offsBefore + 1);
+    expect(engine.getActiveNotes()).toEqual([]);
+  });
+
+  it('plays thru notes through the song zones and releases what was played', () => {
+    const zone = { isEnabled: true, inputChannel: 0, keyRangeStart: 0, keyRangeEnd: 127, outputChannel: 2, velocityScale: 1 };
+    const song = makeSong([]);
+    engine.setSong({ ...song, thruZones: [{ ...zone, id: 'z1', name: 'Low', transpose: 0 }, { ...zone, id: 'z2', name: 'High', transpose: 12 }] });
+
+    engine.playThruNote(60, 0.5, 1, 'keys');
+    expect(output.of('on')).toEqual([
+      { type: 'on', pitch: 60, velocity: 0.5, channel: 2, time: undefined },
+      { type: 'on', pitch: 72, velocity: 0.5, channel: 2, time: undefined }
+    ]);
+
+    // Zones changed while the key is down: the note-off still matches the note-on
+    engine.setSong(song);
+    engine.releaseThruNote(60, 1, 'keys');
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 72]);
+    expect(engine.getActiveNotes()).toEqual([]);
+  });
+
+  it('never sends a release note-off before a note-on that was dispatched ahead', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Soon', notes: [note('a', 60, { preDelay: 20 })] }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.sent).toEqual([
+      { type: 'on', pitch: 60, velocity: 0.8, channel: 1, time: t0 + 20 },
+      { type: 'off', pitch: 60, channel: 1, time: t0 + 20 }
+    ]);
+  });
+
+  it('runs the attack glissando before the chord', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Gliss', notes: [note('a', 72)],
+      glissando: { attackEnabled: true, releaseEnabled: false, lowestNote: 60, targetNote: 64, speed: 50, mode: 'white', lowestVelocity: 0.5, targetVelocity: 1 }
+    }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(500);
+
+    const ons = output.of('on');
+    expect(ons.map(m => m.pitch)).toEqual([60, 62, 64, 72]);
+    expect(ons.map(m => m.time)).toEqual([t0, t0 + 50, t0 + 100, t0 + 150]);
+  });
+
+  it('shapes the glissando and holds its landing note until release', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Gliss', notes: [note('a', 72)],
+      glissando: {
+        attackEnabled: true, releaseEnabled: false, lowestNote: 60, targetNote: 64, speed: 100, mode: 'white', lowestVelocity: 0, targetVelocity: 1,
+        acceleration: 'ease_in', legato: 0.5, velocityCurve: 'exponential', sustainLastNote: true
+      }
+    }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(1000);
+    // Steps of 150, 100 and 50ms; each note overlaps half a step into the next
+    expect(output.of('on').map(m => [m.pitch, m.velocity, m.time])).toEqual([[60, 0, t0], [62, 0.25, t0 + 150], [64, 1, t0 + 250], [72, 0.8, t0 + 300]]);
+    expect(output.of('off').map(m => [m.pitch, m.time])).toEqual([[60, t0 + 225], [62, t0 + 300]]);
+
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 62, 72, 64]);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  describe('early release of an attack glissando', () => {
+    const pressAndRelease = (earlyRelease?: 'finish' | 'abort' | 'jump_to_release') => {
+      engine.setSong(makeSong([{
+        id: 'p1', name: 'Gliss', notes: [note('a', 76)],
+        glissando: { attackEnabled: true, releaseEnabled: true, lowestNote: 60, targetNote: 72, speed: 100, mode: 'white', lowestVelocity: 1, targetVelocity: 1, earlyRelease }
+      }]));
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+      vi.advanceTimersByTime(250);
+      engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+      vi.advanceTimersByTime(2000);
+    };
+
+    it('finishes the run by default, then plays the release run', () => {
+      pressAndRelease();
+      const ons = output.of('on');
+      expect(ons.map(m => m.pitch)).toEqual([60, 62, 64, 65, 67, 69, 71, 72, 72, 71, 69, 67, 65, 64, 62, 60]);
+      // The release run starts once the attack has ended
+      expect(ons[8].time).toBe(t0 + 800);
+      expect(engine.getActiveNotes()).toHaveLength(0);
+    });
+
+    it('aborts the run and cuts the sounding step', () => {
+      pressAndRelease('abort');
+      expect(output.of('on').map(m => m.pitch)).toEqual([60, 62, 64]);
+      expect(output.of('off').map(m => [m.pitch, m.time])).toEqual([[60, t0 + 100], [62, t0 + 200], [64, t0 + 250]]);
+    });
+
+    it('jumps to the release run from the step reached', () => {
+      pressAndRelease('jump_to_release');
+      const ons = output.of('on');
+      expect(ons.map(m => m.pitch)).toEqual([60, 62, 64, 64, 62, 60]);
+      expect(ons[3].time).toBe(t0 + 250);
+      expect(engine.getActiveNotes()).toHaveLength(0);
+    });
+  });
+
+  it('stops running glissandos on panic and on re-trigger', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Gliss', notes: [note('a', 76)],
+      glissando: { attackEnabled: true, releaseEnabled: false, lowestNote: 60, targetNote: 72, speed: 100, mode: 'white', lowestVelocity: 1, targetVelocity: 1 }
+    }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(150);
+    engine.stopAllNotes();
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62]);
+
+    output.sent = [];
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(150);
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(2000);
+    // The second press starts over instead of stacking a second run
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62, 60, 62, 64, 65, 67, 69, 71, 72, 76]);
+  });
+
+  it('plays controller events and ramps with the notes and resets them on release', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Swell', notes: [note('a', 60)],
+      controllers: [
+        { id: 'c1', type: 'cc', channel: 1, controller: 11, value: 0, preDelay: 0, rampTo: 3, rampMs: 30, resetValue: 127 },
+        { id: 'c2', type: 'pitch_bend', channel: 1, controller: 0, value: 0, preDelay: 100, rampTo: -8192, rampMs: 1000, resetValue: 0 },
+        { id: 'c3', type: 'pressure', channel: 1, controller: 0, value: 90, preDelay: 0 }
+      ]
+    }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(300);
+    expect(output.of('cc').map(m => [m.cc, m.value, m.time])).toEqual([[11, 0, t0], [11, 1, t0 + 10], [11, 2, t0 + 20], [11, 3, t0 + 30]]);
+    expect(output.of('pressure').map(m => m.value)).toEqual([90]);
+    expect(output.of('bend')[0]).toEqual({ type: 'bend', value: 0, channel: 1, time: t0 + 100 });
+
+    // Release drops the rest of the dive and sends the reset values; the pressure has none
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    const bends = output.of('bend');
+    expect(bends[bends.length - 1]).toEqual({ type: 'bend', value: 0, channel: 1, time: bends[bends.length - 2].time });
+    expect(output.of('cc').slice(-1)[0]).toMatchObject({ cc: 11, value: 127 });
+    const sentBefore = output.sent.length;
+    vi.advanceTimersByTime(2000);
+    expect(output.sent).toHaveLength(sentBefore);
+    expect(output.of('pressure')).toHaveLength(1);
+  });
+
+  it('sends bank select and program change for songs and ahead of preset notes', () => {
+    engine.setSong({
+      ...makeSong([{ id: 'p1', name: 'Pad', notes: [note('a', 60, { channel: 2 })], programChange: { channel: 2, program: 5 } }]),
+      programChanges: [{ channel: 1, program: 10, bankMsb: 1, bankLsb: 2 }, { channel: 3, program: 0 }]
+    });
+
+    engine.sendSongPrograms();
+    expect(output.sent).toEqual([
+      { type: 'cc', cc: 0, value: 1, channel: 1, time: undefined },
+      { type: 'cc', cc: 32, value: 2, channel: 1, time: undefined },
+      { type: 'pc', program: 10, channel: 1, time: undefined },
+      { type: 'pc', program: 0, channel: 3, time: undefined }
+    ]);
+
+    output.sent = [];
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    expect(output.sent.map(m => m.type)).toEqual(['pc', 'on']);
+    expect(output.sent[0]).toEqual({ type: 'pc', program: 5, channel: 2, time: t0 });
+  });
+
+  it('sends preset and sequence SysEx, skipping malformed messages', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Modes', mode: SequenceMode.STEP, items: [
+        { id: 'i1', type: 'sysex', sysexHex: 'F0 7E 7F 09 01 F7', beatPosition: 0 }
+      ]
+    };
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Mode', notes: [note('a', 60)],
+      sysex: [{ id: 'x1', hex: 'F0 43 10 4C F7', preDelay: 20 }, { id: 'x2', hex: 'F0 43 10', preDelay: 0 }]
+    }], [seq]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerSequence('s1', 'm2', false, 'k');
+    expect(output.of('sysex')).toEqual([
+      { type: 'sysex', bytes: [0xf0, 0x43, 0x10, 0x4c, 0xf7], time: t0 + 20 },
+      { type: 'sysex', bytes: [0xf0, 0x7e, 0x7f, 0x09, 0x01, 0xf7], time: t0 }
+    ]);
+  });
+
+  it('scales preset and glissando velocities by the trigger velocity', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Gliss', notes: [note('a', 72)],
+      glissando: { attackEnabled: true, releaseEnabled: true, lowestNote: 60, targetNote: 62, speed: 50, mode: 'white', lowestVelocity: 0.5, targetVelocity: 1 }
+    }]));
+    const velocity = { value: 0.5, mode: 'scale' as const, curve: 'linear' as const };
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 60, false, undefined, undefined, velocity);
+    vi.advanceTimersByTime(500);
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 60);
+    vi.advanceTimersByTime(500);
+
+    // Attack run, chord (0.8 * 0.5), then the release run keeps the press velocity
+    expect(output.of('on').map(m => [m.pitch, m.velocity])).toEqual([[60, 0.25], [62, 0.5], [72, 0.4], [62, 0.5], [60, 0.25]]);
+  });
+
+  it('transposes presets per key and releases the transposed pitches', () => {
+    engine.setSong(makeSong([{
+      id: 'p1', name: 'Chord', notes: [note('a', 60), note('b', 64)],
+      glissando: { attackEnabled: true, releaseEnabled: false, lowestNote: 48, targetNote: 50, speed: 50, mode: 'white', lowestVelocity: 1, targetVelocity: 1 }
+    }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 65, false, undefined, undefined, undefined, 5);
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 62, false, undefined, undefined, undefined, 2);
+    vi.advanceTimersByTime(500);
+    // Glissando bounds move with the chord
+    expect(output.of('on').map(m => m.pitch).sort((a, b) => a - b)).toEqual([50, 52, 53, 55, 62, 65, 66, 69]);
+
+    // Releasing the first key only ends its own chord
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 65, false, undefined, undefined, undefined, 5);
+    expect(output.of('off').filter(m => m.pitch > 60).map(m => m.pitch)).toEqual([65, 69]);
+    expect(engine.getActiveNotes().map(n => n.pitch).sort()).toEqual([62, 66]);
+  });
+
+  const arpPreset = (arpeggiator: Partial<NotePreset['arpeggiator']> = {}): NotePreset => ({
+    id: 'p1', name: 'Arp', notes: [note('a', 64), note('b', 60)],
+    arpeggiator: { enabled: true, pattern: 'up', rate: 0.5, octaves: 2, gate: 0.5, cycles: null, ...arpeggiator }
+  });
+
+  it('arpeggiates presets on the beat grid while held', () => {
+    engine.setSong(makeSong([arpPreset()]));
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(1050);
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(1000);
+
+    expect(output.of('on').map(m => [m.pitch, m.time])).toEqual([
+      [60, t0], [64, t0 + 250], [72, t0 + 500], [76, t0 + 750], [60, t0 + 1000]
+    ]);
+    // Gate is half a step; release cuts the sounding step and drops the ones committed ahead
+    expect(output.of('off').map(m => [m.pitch, m.time])).toEqual([
+      [60, t0 + 125], [64, t0 + 375], [72, t0 + 625], [76, t0 + 875], [60, t0 + 1050]
+    ]);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  it('plays a fixed number of arpeggio cycles regardless of release and stops on panic', () => {
+    engine.setSong(makeSong([arpPreset({ pattern: 'down', octaves: 1, cycles: 2 })]));
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on').map(m => m.pitch)).toEqual([64, 60, 64, 60]);
+
+    engine.setSong(makeSong([arpPreset({ cycles: 10 })]));
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm2', 'k');
+    vi.advanceTimersByTime(300);
+    engine.stopAllNotes();
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on')).toHaveLength(6);
+  });
+
+  it('humanizes preset notes reproducibly from a seed without touching the preset', () => {
+    const preset: NotePreset = { id: 'p1', name: 'Chord', notes: [note('a', 60, { preDelay: 20 }), note('b', 64, { preDelay: 20 })], humanize: { timingMs: 10, velocity: 0.1, seed: 1 } };
+    engine.setSong(makeSong([preset]));
+    const play = () => {
+      output.sent = [];
+      engine.resetAllSequences();
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+      vi.advanceTimersByTime(100);
+      engine.stopAllNotes();
+      return output.of('on').map(m => [m.pitch, m.velocity, m.time! - Date.now() + 100]);
+    };
+
+    const first = play();
+    expect(play()).toEqual(first);
+    first.forEach(([, velocity, offset]) => {
+      expect(Math.abs(velocity - 0.8)).toBeLessThanOrEqual(0.1 + 1e-9);
+      expect(Math.abs(offset - 20)).toBeLessThanOrEqual(10);
+    });
+    expect(first.some(([, velocity, offset]) => velocity !== 0.8 || offset !== 20)).toBe(true);
+    expect(preset.notes.map(n => [n.velocity, n.preDelay])).toEqual([[0.8, 20], [0.8, 20]]);
+  });
+
+  it('advances and wraps STEP sequences', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Steps', mode: SequenceMode.STEP, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62), beatPosition: 1 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+
+    for (let i = 0; i < 3; i++) {
+      engine.triggerSequence('s1', 'm1', false, 'k');
+      engine.triggerSequence('s1', 'm1', true, 'k');
+      vi.advanceTimersByTime(50);
+    }
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62, 60]);
+    expect(engine.getStepPositions()).toEqual({ s1: 0 });
+
+    engine.resetAllSequences();
+    expect(engine.getStepPositions()).toEqual({ s1: -1 });
+  });
+
+  it('walks GROUP sub-sequences in ping-pong order and reports the step played', () => {
+    const sub = (id: string, pitches: number[]): Sequence => ({
+      id, name: id, mode: SequenceMode.STEP, items: pitches.map((p, i) => ({ id: `${id}${i}`, type: 'note' as const, noteData: note(`${id}${i}`, p), beatPosition: i }))
+    });
+    const group: Sequence = { id: 'g', name: 'Group', mode: SequenceMode.GROUP, stepOrder: 'ping_pong', items: [
+      { id: 'ga', type: 'sequence', targetId: 'a', beatPosition: 0 },
+      { id: 'gb', type: 'sequence', targetId: 'b', beatPosition: 1 }
+    ] };
+    engine.setSong(makeSong([], [sub('a', [60, 62]), sub('b', [64]), group]));
+
+    const positions: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      engine.triggerSequence('g', 'm1', false, 'k');
+      positions.push(engine.getStepPositions().g);
+      engine.triggerSequence('g', 'm1', true, 'k');
+      vi.advanceTimersByTime(50);
+    }
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62, 64, 62, 60]);
+    expect(positions).toEqual([0, 1, 2, 1, 0]);
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 62, 64, 62, 60]);
+  });
+
+  it('reports skipped and resting steps in the step position', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Steps', mode: SequenceMode.STEP, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62), beatPosition: 1, skip: true },
+        { id: 'i3', type: 'note', noteData: note('z', 64), beatPosition: 2, probability: 0 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+
+    const positions: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      engine.triggerSequence('s1', 'm1', false, 'k');
+      positions.push(engine.getStepPositions().s1);
+      engine.triggerSequence('s1', 'm1', true, 'k');
+      vi.advanceTimersByTime(50);
+    }
+    expect(positions).toEqual([0, 2, 0]);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 60]);
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 60]);
+  });
+
+  it('ignores a second trigger of the same instance within 30ms', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Steps', mode: SequenceMode.STEP, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62), beatPosition: 1 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    expect(output.of('on').map(m => m.pitch)).toEqual([60]);
+  });
+
+  it('places AUTO items on their beat positions', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, bpm: 120, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62, { duration: 100 }), beatPosition: 1.5 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(1000);
+    expect(output.of('on').map(m => [m.pitch, m.time])).toEqual([[60, t0], [62, t0 + 750]]);
+  });
+
+  it('follows the measured MIDI clock tempo, including mid-sequence changes', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, bpm: 90, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62, { duration: 100 }), beatPosition: 2 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+    engine.setClockSource('midi');
+
+    let tick = 0;
+    const feedClock = (bpm: number, ticks: number) => {
+      for (let i = 0; i < ticks; i++) {
+        engine.receiveClockTick(tick);
+        tick += 60000 / (bpm * 24);
+      }
+    };
+    feedClock(120, 48);
+    expect(engine.getTempoState().bpm).toBe(120);
+
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(250);
+    // Master slows to 60 BPM half a beat in: everything not yet committed moves with it
+    feedClock(60, 25);
+    vi.advanceTimersByTime(2000);
+
+    const [first, second] = output.of('on');
+    expect(first.time).toBe(t0);
+    expect(second.time).toBeCloseTo(t0 + 350 + 1300, 5);
+  });
+
+  it('applies Song.bpm changes to a running AUTO sequence', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62, { duration: 100 }), beatPosition: 2 }
+      ]
+    };
+    const song = makeSong([], [seq]);
+    engine.setSong(song);
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(250);
+    // e.g. SET_BPM 60 half a beat in
+    engine.setSong({ ...song, bpm: 60 });
+    vi.advanceTimersByTime(3000);
+
+    const [, second] = output.of('on');
+    expect(second.time).toBeCloseTo(t0 + 350 + 1300, 5);
+  });
+
+  it('stops AUTO sequences when the external clock stops', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 },
+        { id: 'i2', type: 'note', noteData: note('y', 62, { duration: 100 }), beatPosition: 4 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+    engine.setClockSource('midi');
+    engine.receiveClockTransport('start');
+
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    engine.receiveClockTransport('stop');
+    vi.advanceTimersByTime(5000);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60]);
+  });
+
+  it('starts AUTO sequences on the clock grid while sending MIDI clock', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+    const transport: string[] = [];
+    engine.setClockOutput({
+      clock: () => {},
+      start: () => transport.push('start'),
+      stop: () => transport.push('stop'),
+      continue: () => transport.push('continue'),
+      songPosition: value => transport.push(`spp ${value}`)
+    });
+    expect(engine.getTransportState()).toEqual({ isEnabled: true, isRunning: false });
+
+    engine.transportStart();
+    vi.advanceTimersByTime(1010);
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(200);
+
+    expect(transport).toEqual(['start', 'stop', 'spp 0', 'continue']);
+    // Launched on the next tick after the committed window, not at the trigger time
+    const [on] = output.of('on');
+    expect(on.time!).toBeGreaterThan(t0 + 1010);
+    expect((on.time! - t0) % (500 / 24)).toBeCloseTo(0, 5);
+  });
+
+  it('cues MIDI clock gear for AUTO launches quantized to a beat mid-bar', () => {
+    const seq: Sequence = {
+      id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, items: [
+        { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 }
+      ]
+    };
+    engine.setSong(makeSong([], [seq]));
+    const transport: string[] = [];
+    engine.setClockOutput({
+      clock: () => {},
+      start: () => transport.push('start'),
+      stop: () => transport.push('stop'),
+      continue: () => transport.push('continue'),
+      songPosition: value => transport.push(`spp ${value}`)
+    });
+
+    engine.transportStart();
+    vi.advanceTimersByTime(1200);
+    engine.quantizeTrigger('m1', 'k', 'beat', false, time => engine.triggerSequence('s1', 'm1', false, 'k', time));
+    vi.advanceTimersByTime(500);
+
+    // Beat 3 of bar 1: the gear is sent back to the bar start where the sequence begins
+    expect(transport).toEqual(['start', 'stop', 'spp 0', 'continue']);
+    const [on] = output.of('on');
+    expect(on.time!).toBeGreaterThanOrEqual(t0 + 1500);
+    expect(on.time!).toBeLessThan(t0 + 1550);
+  });
+
+  it('holds quantized launches until the next beat and shows them as queued', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Hit', notes: [note('a', 60)] }]));
+    const launch = (isRelease: boolean, mappingId = 'm1') =>
+      engine.quantizeTrigger(mappingId, 'k', 'beat', isRelease, time => engine.triggerPreset('p1', isRelease, undefined, 'ms', 120, mappingId, 'k', false, undefined, time));
+
+    // The first quantized launch starts the internal grid
+    launch(false, 'm0');
+    launch(true, 'm0');
+    expect(output.of('on')[0].time).toBe(t0);
+
+    vi.advanceTimersByTime(300);
+    launch(false);
+    expect(engine.getQueuedLaunches()).toEqual({ m1: true });
+    expect(output.of('on')).toHaveLength(1);
+
+    // Released before the launch: held for the same 100ms after it
+    vi.advanceTimersByTime(100);
+    launch(true);
+    vi.advanceTimersByTime(1000);
+    expect(engine.getQueuedLaunches()).toEqual({});
+    const ons = output.of('on');
+    expect(ons[1].time).toBe(t0 + 500);
+    const offs = output.of('off');
+    expect(offs[offs.length - 1].time).toBeGreaterThanOrEqual(t0 + 500 + 100 - 40);
+  });
+
+  it('drops queued launches on panic', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Hit', notes: [note('a', 60)] }]));
+    const launch = (mappingId: string) =>
+      engine.quantizeTrigger(mappingId, 'k', 'bar', false, time => engine.triggerPreset('p1', false, undefined, 'ms', 120, mappingId, 'k', false, undefined, time));
+    launch('m0');
+    vi.advanceTimersByTime(100);
+    launch('m1');
+    expect(engine.getQueuedLaunches()).toEqual({ m1: true });
+    engine.stopAllNotes();
+    vi.advanceTimersByTime(3000);
+    expect(engine.getQueuedLaunches()).toEqual({});
+    expect(output.of('on')).toHaveLength(1);
+  });
+
+  const timeline = (extra: Partial<Sequence> = {}): Sequence => ({
+    id: 's1', name: 'Timeline', mode: SequenceMode.AUTO, items: [
+      { id: 'i1', type: 'note', noteData: note('x', 60, { duration: 100 }), beatPosition: 0 },
+      { id: 'i2', type: 'note', noteData: note('y', 62, { duration: null }), beatPosition: 1 }
+    ], ...extra
+  });
+
+  it('loops AUTO sequences over the loop length', () => {
+    engine.setSong(makeSong([], [timeline({ loop: true, loopLengthBeats: 2 })]));
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(2100);
+    expect(output.of('on').map(m => [m.pitch, Math.round(m.time!)])).toEqual([
+      [60, t0], [62, t0 + 500], [60, t0 + 1000], [62, t0 + 1500], [60, t0 + 2000]
+    ]);
+    engine.resetAllSequences();
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on')).toHaveLength(5);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  it('stops while-held AUTO sequences on release', () => {
+    engine.setSong(makeSong([], [timeline({ autoPlayMode: 'while_held' })]));
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(600);
+    engine.triggerSequence('s1', 'm1', true, 'k');
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62]);
+    // The sustained note from the timeline is cut on release
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 62]);
+  });
+
+  it('starts and stops latched AUTO sequences on alternate presses', () => {
+    engine.setSong(makeSong([], [timeline({ autoPlayMode: 'latch', loop: true })]));
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    engine.triggerSequence('s1', 'm1', true, 'k');
+    // Default loop: up to the bar after the last item (4 beats)
+    vi.advanceTimersByTime(4100);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62, 60, 62, 60]);
+
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(4000);
+    expect(output.of('on')).toHaveLength(5);
+  });
+
+  it('restarts one-shot AUTO sequences on re-trigger and cancels them on panic', () => {
+    engine.setSong(makeSong([], [timeline()]));
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(300);
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(300);
+    engine.stopAllNotes();
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on').map(m => [m.pitch, m.time])).toEqual([[60, t0], [60, t0 + 300]]);
+  });
+
+  const nest = (id: string, targets: [string, number][], extra: Partial<Sequence> = {}): Sequence => ({
+    id, name: id, mode: SequenceMode.AUTO,
+    items: targets.map(([targetId, beatPosition], i) => ({ id: `${id}-${i}`, type: 'sequence' as const, targetId, beatPosition })),
+    ...extra
+  });
+
+  it('plays nested AUTO sequences from their beat offset and stops them with the parent', () => {
+    engine.setSong(makeSong([], [timeline(), nest('s2', [['s1', 2]], { autoPlayMode: 'while_held' })]));
+    engine.triggerSequence('s2', 'm1', false, 'k');
+    vi.advanceTimersByTime(1600);
+    expect(output.of('on').map(m => [m.pitch, Math.round(m.time!)])).toEqual([[60, t0 + 1000], [62, t0 + 1500]]);
+
+    engine.triggerSequence('s2', 'm1', true, 'k');
+    vi.advanceTimersByTime(2000);
+    expect(output.of('off').map(m => m.pitch)).toEqual([60, 62]);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  it('keeps an AUTO sequence nested at beat 0 playing past the first pump', () => {
+    engine.setSong(makeSong([], [timeline({ loop: true, loopLengthBeats: 2 }), nest('s2', [['s1', 0]], { autoPlayMode: 'while_held' })]));
+    engine.triggerSequence('s2', 'm1', false, 'k');
+    vi.advanceTimersByTime(1600);
+    expect(output.of('on').map(m => [m.pitch, Math.round(m.time!)])).toEqual([[60, t0], [62, t0 + 500], [60, t0 + 1000], [62, t0 + 1500]]);
+
+    engine.triggerSequence('s2', 'm1', true, 'k');
+    vi.advanceTimersByTime(2000);
+    expect(output.of('on')).toHaveLength(4);
+    expect(engine.getActiveNotes()).toHaveLength(0);
+  });
+
+  it('advances nested STEP sequences one step per item', () => {
+    const steps: Sequence = { id: 'st', name: 'Steps', mode: SequenceMode.STEP, items: [
+      { id: 'a', type: 'note', noteData: note('a', 64, { duration: 100 }), beatPosition: 0 },
+      { id: 'b', type: 'note', noteData: note('b', 65, { duration: 100 }), beatPosition: 1 }
+    ] };
+    engine.setSong(makeSong([], [steps, nest('s2', [['st', 0], ['st', 1], ['st', 2]])]));
+    engine.triggerSequence('s2', 'm1', false, 'k');
+    vi.advanceTimersByTime(1100);
+    expect(output.of('on').map(m => [m.pitch, Math.round(m.time!)])).toEqual([[64, t0], [65, t0 + 500], [64, t0 + 1000]]);
+  });
+
+  it('refuses sequences that contain themselves', () => {
+    const sequences = [nest('a', [['b', 0]]), nest('b', [['c', 0]]), nest('c', []), timeline()];
+    expect(wouldCreateSequenceCycle(sequences, 'c', 'a')).toBe(true);
+    expect(wouldCreateSequenceCycle(sequences, 'a', 'a')).toBe(true);
+    expect(wouldCreateSequenceCycle(sequences, 'a', 's1')).toBe(false);
+
+    // A cycle saved anyway (e.g. an imported file) is skipped at playback
+    engine.setSong(makeSong([], [{ ...timeline(), items: [...timeline().items, { id: 'self', type: 'sequence', targetId: 's1', beatPosition: 0.5 }] }]));
+    engine.triggerSequence('s1', 'm1', false, 'k');
+    vi.advanceTimersByTime(3000);
+    expect(output.of('on').map(m => m.pitch)).toEqual([60, 62]);
+  });
+
+  it('replaces sequence note velocities when asked', () => {
+    engine.setSong(makeSong([], [timeline()]));
+    engine.triggerSequence('s1', 'm1', false, 60, undefined, { value: 0.81, mode: 'replace', curve: 'soft' });
+    vi.advanceTimersByTime(600);
+    expect(output.of('on').map(m => m.velocity)).toEqual([0.9, 0.9]);
+  });
+
+  it('toggles presets on and off', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Pad', notes: [note('a', 48)] }]));
+
+    expect(engine.triggerTogglePreset('p1')).toBe(true);
+    expect(engine.getTogglePresetState('p1')).toBe(true);
+    expect(engine.triggerTogglePreset('p1')).toBe(false);
+    expect(output.sent.map(m => m.type)).toEqual(['on', 'off']);
+  });
+
+  it('panic sends All Notes Off and cancels pending notes', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Late', notes: [note('a', 60, { preDelay: 500 })] }]));
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    engine.stopAllNotes();
+    vi.advanceTimersByTime(1000);
+
+    expect(output.of('on')).toHaveLength(0);
+    expect(output.of('cc')).toHaveLength(16);
+    expect(output.of('cc').every(m => m.cc === 123)).toBe(true);
+  });
+
+  it('notifies subscribers when UI state changes', () => {
+    engine.setSong(makeSong([{ id: 'p1', name: 'Chord', notes: [note('a', 60)] }]));
+    const listener = vi.fn();
+    const unsubscribe = engine.subscribe(listener);
+
+    engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+    expect(listener).toHaveBeenCalled();
+
+    unsubscribe();
+    listener.mockClear();
+    engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+    expect(listener).not.toHaveBeenCalled();
+  });
+  describe('sustain pedal', () => {
+    const pedalSong = (presets: NotePreset[], sequences: Sequence[] = []): Song => ({
+      ...makeSong(presets, sequences),
+      sustainPedal: true,
+      mappings: [{ id: 'm1', midiChannel: 1 } as InputMapping, { id: 'omni', midiChannel: 0 } as InputMapping]
+    });
+
+    it('holds preset releases while the pedal is down on the mapping channel', () => {
+      engine.setSong(pedalSong([{ id: 'p1', name: 'Chord', notes: [note('a', 60), note('b', 64)] }]));
+
+      engine.receiveSustainPedal(1, 127);
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+      engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+      expect(output.of('off')).toHaveLength(0);
+
+      // A pedal on another channel does not keep it down
+      engine.receiveSustainPedal(2, 127);
+      engine.receiveSustainPedal(1, 0);
+      expect(output.of('off').map(m => m.pitch)).toEqual([60, 64]);
+    });
+
+    it('releases every held trigger of a preset on pedal up, not only the latest', () => {
+      engine.setSong(pedalSong([{ id: 'p1', name: 'Chord', notes: [note('a', 60), note('b', 64)] }]));
+
+      engine.receiveSustainPedal(1, 127);
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 50);
+      engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 50);
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 52);
+      engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 52);
+      expect(engine.getActiveNotes()).toHaveLength(2);
+
+      // The second press re-strikes the chord; pedal up must still let go of both triggers
+      const offsBefore = output.of('off').length;
+      engine.receiveSustainPedal(1, 0);
+      expect(engine.getActiveNotes()).toEqual([]);
+      expect(output.of('off').slice(offsBefore).map(m => m.pitch)).toEqual([60, 64]);
+    });
+
+    it('holds STEP releases until pedal up, while the next step still replaces the previous one', () => {
+      const seq: Sequence = {
+        id: 's1', name: 'Steps', mode: SequenceMode.STEP, items: [
+          { id: 'i1', type: 'note', noteData: note('x', 60), beatPosition: 0 },
+          { id: 'i2', type: 'note', noteData: note('y', 62), beatPosition: 1 }
+        ]
+      };
+      engine.setSong(pedalSong([], [seq]));
+
+      engine.receiveSustainPedal(3, 100);
+      engine.triggerSequence('s1', 'omni', false, 'k');
+      engine.triggerSequence('s1', 'omni', true, 'k');
+      expect(output.of('off')).toHaveLength(0);
+      vi.advanceTimersByTime(50);
+      engine.triggerSequence('s1', 'omni', false, 'k');
+      engine.triggerSequence('s1', 'omni', true, 'k');
+      expect(output.of('off').map(m => m.pitch)).toEqual([60]);
+
+      // Pedal up releases the held step once; the replaced one is not turned off again
+      engine.receiveSustainPedal(3, 0);
+      expect(output.of('off').map(m => m.pitch)).toEqual([60, 62]);
+    });
+
+    it('holds thru notes on their own channel and ignores the pedal when the song does not use it', () => {
+      const zone = { id: 'z', name: 'All', isEnabled: true, inputChannel: 0, keyRangeStart: 0, keyRangeEnd: 127, outputChannel: 0, transpose: 0, velocityScale: 1 };
+      engine.setSong({ ...pedalSong([]), thruZones: [zone] });
+      engine.receiveSustainPedal(1, 127);
+      engine.playThruNote(60, 1, 1);
+      engine.releaseThruNote(60, 1);
+      expect(output.of('off')).toHaveLength(0);
+      engine.receiveSustainPedal(1, 0);
+      expect(output.of('off').map(m => m.pitch)).toEqual([60]);
+
+      engine.setSong({ ...makeSong([]), thruZones: [zone] });
+      engine.receiveSustainPedal(1, 127);
+      engine.playThruNote(62, 1, 1);
+      engine.releaseThruNote(62, 1);
+      expect(output.of('off').map(m => m.pitch)).toEqual([60, 62]);
+    });
+
+    it('drops held releases on panic', () => {
+      engine.setSong(pedalSong([{ id: 'p1', name: 'Chord', notes: [note('a', 60)] }]));
+      engine.receiveSustainPedal(1, 127);
+      engine.triggerPreset('p1', false, undefined, 'ms', 120, 'm1', 'k');
+      engine.triggerPreset('p1', true, undefined, 'ms', 120, 'm1', 'k');
+
+      engine.stopAllNotes();
+      output.sent = [];
+      engine.receiveSustainPedal(1, 0);
+      expect(output.sent).toEqual([]);
+      expect(engine.getActiveNotes()).toEqual([]);
+    });
+  });
+});
+
+describe('shapeVelocity', () => {
+  it('keeps, scales or replaces the stored velocity through the curve', () => {
+    expect(shapeVelocity(0.8)).toBe(0.8);
+    expect(shapeVelocity(0.8, { value: 0.2, mode: 'fixed', curve: 'linear' })).toBe(0.8);
+    expect(shapeVelocity(0.8, { value: 0.5, mode: 'scale', curve: 'hard' })).toBeCloseTo(0.2);
+    expect(shapeVelocity(0.8, { value: 0.25, mode: 'replace', curve: 'soft' })).toBe(0.5);
+  });
+});
+
+describe('getGlissandoTiming', () => {
+  it('spaces steps evenly or along an acceleration curve with the same overall length', () => {
+    expect(getGlissandoTiming(3, 100)).toEqual([{ offset: 0, length: 100 }, { offset: 100, length: 100 }, { offset: 200, length: 100 }]);
+    expect(getGlissandoTiming(3, 100, 'ease_out').map(s => s.length)).toEqual([50, 100, 150]);
+    expect(getGlissandoTiming(3, 100, 'ease_in_out').map(s => s.length)).toEqual([150, 50, 150]);
+  });
+});
+
+describe('getGlissandoSteps', () => {
+  it('filters by key colour in both directions', () => {
+    expect(getGlissandoSteps(60, 65, 'white')).toEqual([60, 62, 64, 65]);
+    expect(getGlissandoSteps(65, 60, 'black')).toEqual([63, 61]);
+    expect(getGlissandoSteps(60, 62, 'both')).toEqual([60, 61, 62]);
+  });
+
+  it('runs through a scale from its root, or a custom pitch-class set', () => {
+    expect(getGlissandoSteps(60, 72, 'scale')).toEqual([60, 62, 64, 65, 67, 69, 71, 72]);
+    expect(getGlissandoSteps(62, 50, 'scale', { scale: 'minor_pentatonic', scaleRoot: 2 })).toEqual([62, 60, 57, 55, 53, 50]);
+    expect(getGlissandoSteps(57, 60, 'scale', { scale: 'harmonic_minor', scaleRoot: 9 })).toEqual([57, 59, 60]);
+    expect(getGlissandoSteps(60, 68, 'scale', { scale: 'custom', customPitchClasses: [0, 4, 7] })).toEqual([60, 64, 67]);
+  });
+});
@@ -0,0 +1,1334 @@
+import { Song, ActiveNoteState, NoteItem, Sequence, SequenceItem, SequenceMode, DurationUnit, GlissandoConfig, GlissandoMode, ClockSource, LaunchQuantize, VelocityMode, VelocityCurve, ArpeggiatorConfig, ArpPattern, HumanizeConfig, GlissandoAcceleration, GlissandoVelocityCurve, ControllerEvent, ProgramChange } from '../types';
+import { Clock, performanceClock } from './clock';
+import { LookaheadScheduler } from './lookaheadScheduler';
+import { MidiOutputPort, MidiTransportPort } from './midiOutputPort';
+import { MidiClockFollower, MIDI_CLOCK_PPQN } from './midiClockFollower';
+import { MidiClockMaster } from './midiClockMaster';
+import { TapTempo } from './tapTempo';
+import { BeatGrid } from './beatGrid';
+import { buildArpCycle, arpStepNote } from './arpeggiator';
+import { Humanizer } from './humanize';
+import { StepOrderState, createStepOrderState, takeConditionalStep } from './stepOrder';
+import { getScalePitchClasses } from './scales';
+import { getControllerSteps, controllerTarget, clampControllerValue } from './controllerEvents';
+import { parseSysExHex } from './sysex';
+import { getActiveThruZones, routeThruNote } from './midiThru';
+
+// A note on one output destination; destinationId unset = the main output
+type NoteRef = { pitch: number, channel: number, destinationId?: string };
+// The same channel+pitch on two destinations are different notes
+const noteKeyOf = ({ pitch, channel, destinationId }: NoteRef) => `${destinationId ?? ''}:${channel}-${pitch}`;
+
+type NoteTimerState = { onEventId: number | null, offEventId: number | null, onTime: number, isPlaying: boolean, pitch: number, channel: number, destinationId?: string, sourceId: string };
+type GroupPosition = { groupIdx: number, subIdx: number };
+// A trigger held back until the next quantize boundary; a release arriving meanwhile is
+// replayed after the launch, keeping the time the key was held
+type PendingLaunch = { mappingId: string, eventId: number, pressTime: number, release?: { action: () => void, heldMs: number } };
+
+// A running AUTO sequence. Items are handed to the scheduler a short window ahead,
+// converting beats to time with the tempo current at that moment, so tempo changes apply live.
+interface AutoPlayback {
+  seqId: string;
+  ancestors: string[]; // enclosing sequences when placed on another timeline, outermost first
+  mappingId: string;
+  triggerValue: string | number;
+  items: SequenceItem[]; // sorted by beatPosition
+  loopLength: number | null; // beats per pass when looping
+  passStartBeat: number; // beat at which the current pass started
+  nextItemIdx: number;
+  committedBeat: number; // beat position up to which items have been scheduled
+  committedTime: number; // clock time matching committedBeat
+  pendingEventIds: Set<number>; // committed items not yet dispatched, cancelled on stop
+  velocity?: TriggerVelocity;
+}
+
+// A running arpeggio. Steps are committed a short window ahead like AUTO items.
+interface ArpRun {
+  key: string; // "sourceId_mappingId_triggerValue_arp"
+  sourceId: string;
+  cycle: Omit<NoteItem, 'id'>[];
+  pattern: ArpPattern;
+  rate: number; // beats per step
+  gate: number;
+  bpm: number;
+  step: number;
+  stepsLeft: number | null; // null = until released
+  nextTime: number;
+  endTime: number | null; // set when the preset was triggered with a duration
+  pendingEventIds: Set<number>;
+  sounding: Map<string, NoteRef & { onTime: number }>; // key: noteKeyOf
+}
+
+interface GlissandoJob {
+  key: string; // "sourceId_mappingId_triggerValue_gliss", "…_gliss_release" for release runs
+  sourceId: string;
+  endTime: number; // when the last step ends (a sustained landing note is held past this)
+  pendingEventIds: Set<number>;
+  sounding: Map<string, NoteRef & { onTime: number }>; // key: noteKeyOf
+  lastPitch: number | null; // highest step reached so far, where a jump to the release run starts
+  landing: { timerKey: string, note: Omit<NoteItem, 'id'>, time: number, length: number } | null; // sustained landing note
+}
+
+interface ControllerRun {
+  key: string; // "sourceId_mappingId_triggerValue_ctl"
+  events: ControllerEvent[];
+  destinationId?: string;
+  pendingEventIds: Set<number>;
+  lastTime: number; // latest message handed to the output; resets are never sent before it
+}
+
+// Quantize divisions in beats (4/4 bars)
+const QUANTIZE_BEATS: Record<LaunchQuantize, number> = { none: 0, quarter_beat: 0.25, beat: 1, bar: 4 };
+
+// How far ahead AUTO items are committed to the scheduler, and how often that window is refilled
+const AUTO_COMMIT_MS = 100;
+const AUTO_PUMP_MS = 25;
+
+export interface TempoState {
+  source: ClockSource;
+  bpm: number | null; // measured MIDI clock tempo, null when internal or not yet locked
+  isRunning: boolean; // external transport state (Start/Continue vs Stop)
+}
+
+// Our own transport when sending MIDI clock to external gear
+export interface TransportState {
+  isEnabled: boolean; // a clock output is configured
+  isRunning: boolean;
+}
+
+// Velocity of the incoming note (0-1) and how the mapping applies it to stored velocities
+export interface TriggerVelocity {
+  value: number;
+  mode: VelocityMode;
+  curve: VelocityCurve;
+}
+
+export interface PerformanceEngineOptions {
+  clock?: Clock;
+  lookaheadMs?: number;
+}
+
+// `scale` is only read in 'scale' mode
+export const getGlissandoSteps = (start: number, end: number, mode: GlissandoMode, scale?: Pick<GlissandoConfig, 'scale' | 'scaleRoot' | 'customPitchClasses'>) => {
+  const steps: number[] = [];
+  const dir = start < end ? 1 : -1;
+  const inScale = mode === 'scale' ? getScalePitchClasses(scale?.scale ?? 'major', scale?.scaleRoot ?? 0, scale?.customPitchClasses) : null;
+  let curr = start;
+  while (dir === 1 ? curr <= end : curr >= end) {
+    const pc = curr % 12;
+    const isBlack = [1, 3, 6, 8, 10].includes(pc);
+    if (mode === 'both' || (mode === 'white' && !isBlack) || (mode === 'black' && isBlack) || inScale?.has(pc)) {
+      steps.push(curr);
+    }
+    curr += dir;
+  }
+  return steps;
+};
+
+const VELOCITY_CURVES: Record<VelocityCurve, (v: number) => number> = {
+  linear: v => v,
+  soft: v => Math.sqrt(v), // light touch already plays loud
+  hard: v => v * v // needs a firm hit to reach full level
+};
+
+// A stored 0-1 velocity as played by this trigger
+export const shapeVelocity = (stored: number, input?: TriggerVelocity): number => {
+  if (!input || input.mode === 'fixed') return stored;
+  const curved = VELOCITY_CURVES[input.curve](Math.min(1, Math.max(0, input.value)));
+  return input.mode === 'replace' ? curved : Math.min(1, stored * curved);
+};
+
+const clampPitch = (pitch: number) => Math.min(127, Math.max(0, pitch));
+
+const GLISSANDO_VELOCITY_CURVES: Record<GlissandoVelocityCurve, (t: number) => number> = {
+  linear: t => t,
+  exponential: t => t * t,
+  logarithmic: t => Math.sqrt(t),
+  s_curve: t => t * t * (3 - 2 * t)
+};
+
+// Relative length of each step along the run (t = 0..1); each curve averages to 1 so the run keeps its overall pace
+const GLISSANDO_ACCELERATION: Record<GlissandoAcceleration, (t: number) => number> = {
+  none: () => 1,
+  ease_in: t => 1.5 - t,
+  ease_out: t => 0.5 + t,
+  ease_in_out: t => 0.5 + Math.abs(1 - 2 * t)
+};
+
+// Start offset and length (ms) of every step of a glissando run
+export const getGlissandoTiming = (count: number, stepMs: number, acceleration: GlissandoAcceleration = 'none') => {
+  const timing: { offset: number, length: number }[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    const length = stepMs * GLISSANDO_ACCELERATION[acceleration](i / (count - 1 || 1));
+    timing.push({ offset, length });
+    offset += length;
+  }
+  return timing;
+};
+
+// Loop length of an AUTO sequence: the configured length, or up to the bar after the last item
+export const getAutoLoopLength = (seq: Sequence): number => {
+  if (seq.loopLengthBeats && seq.loopLengthBeats > 0) return seq.loopLengthBeats;
+  const lastBeat = seq.items.reduce((max, item) => Math.max(max, item.beatPosition), 0);
+  return Math.floor(lastBeat / 4) * 4 + 4;
+};
+
+// True when placing `childId` inside `parentId` would make a sequence contain itself, directly or indirectly
+export const wouldCreateSequenceCycle = (sequences: Sequence[], parentId: string, childId: string): boolean => {
+  const seen = new Set<string>();
+  const reaches = (id: string): boolean => {
+    if (id === parentId) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    const seq = sequences.find(s => s.id === id);
+    return !!seq?.items.some(item => item.type === 'sequence' && !!item.targetId && reaches(item.targetId));
+  };
+  return reaches(childId);
+};
+
+// A sequence and every sequence nested in it
+const collectSequenceIds = (sequences: Sequence[], rootId: string, into: Set<string> = new Set()): Set<string> => {
+  if (into.has(rootId)) return into;
+  into.add(rootId);
+  sequences.find(s => s.id === rootId)?.items.forEach(item => {
+    if (item.type === 'sequence' && item.targetId) collectSequenceIds(sequences, item.targetId, into);
+  });
+  return into;
+};
+
+export const calculateMs = (value: number | null, unit: DurationUnit, bpm: number): number | null => {
+  if (value === null || value === undefined) return null;
+  if (unit === 'ms') return value;
+  return (value * 60000) / (bpm || 120);
+};
+
+// Framework-free performance engine: STEP/AUTO/GROUP sequencing, ref-counted notes,
+// toggle presets and sustained-note bookkeeping. React binds to it through useMidiEngine.
+export class PerformanceEngine {
+  private song: Song | null = null;
+  private output: MidiOutputPort | null = null;
+  // Named destinations by id; null = not connected to a device
+  private destinations = new Map<string, MidiOutputPort | null>();
+  private clock: Clock;
+  private scheduler: LookaheadScheduler;
+  private listeners = new Set<() => void>();
+
+  // Snapshots handed to the UI; replaced (never mutated) on change
+  private activeNotes: ActiveNoteState[] = [];
+  private stepPositions: Record<string, number> = {};
+  private tempoState: TempoState = { source: 'internal', bpm: null, isRunning: false };
+  private transportState: TransportState = { isEnabled: false, isRunning: false };
+
+  private clockFollower = new MidiClockFollower();
+  private clockMaster: MidiClockMaster;
+  private tapTempo = new TapTempo();
+  private humanizer = new Humanizer();
+  private beatGrid = new BeatGrid();
+  private pendingLaunches = new Map<string, PendingLaunch>();
+  private queuedLaunches: Record<string, boolean> = {};
+  private autoPlaybacks: AutoPlayback[] = [];
+  private autoPumpTimer: unknown = null;
+  private isPumpingAuto = false;
+  private arpRuns: ArpRun[] = [];
+  private arpPumpTimer: unknown = null;
+  private glissandoJobs = new Map<string, GlissandoJob>();
+  private controllerRuns = new Map<string, ControllerRun>();
+
+  private stepOrderStates: Record<string, StepOrderState> = {};
+
+  private noteTimers = new Map<string, NoteTimerState>();
+  private activeMappingByTarget = new Map<string, string>();
+  private sustainedNotesBySource = new Map<string, Map<string, NoteRef>>();
+  private lastTriggeredIndexByInstance = new Map<string, number>();
+  // 그룹 모드 전용 마지막 트리거 상태 추적
+  private lastGroupTriggerByInstance = new Map<string, GroupPosition>();
+  private lastTriggerTimeByMapping = new Map<string, number>();
+  // Velocity a preset was pressed with, reused by its release glissando. Key: "sourceId_mappingId_triggerValue"
+  private pressVelocityByInstance = new Map<string, TriggerVelocity>();
+
+  // Sustain pedal (Song.sustainPedal): input channels with CC64 >= 64, and the releases waiting for
+  // the pedal to come up. Key: what is released, so a re-press of the same thing drops its wait.
+  private sustainPedals = new Set<number>();
+  private deferredReleases = new Map<string, { channel: number, release: () => void }>();
+
+  // Toggle preset state tracking: key = presetId, value = isOn
+  private togglePresetState = new Map<string, boolean>();
+
+  // Reference counting for overlapping notes (same destination+channel+pitch from different sources)
+  // Key: noteKeyOf, Value: count of active sources holding this note
+  private noteRefCount = new Map<string, number>();
+
+  constructor(options: PerformanceEngineOptions = {}) {
+    this.clock = options.clock ?? performanceClock;
+    this.scheduler = new LookaheadScheduler(this.clock, options.lookaheadMs);
+    this.clockMaster = new MidiClockMaster(this.clock, () => this.song?.bpm || 120);
+  }
+
+  setSong(song: Song) {
+    if (this.song?.id !== song.id) this.humanizer.reset();
+    this.song = song;
+    this.beatGrid.setTempo(this.clock.now(), this.resolveBpm(song.bpm || 120));
+  }
+
+  setOutput(output: MidiOutputPort | null) {
+    this.output = output;
+  }
+
+  setDestinations(destinations: Map<string, MidiOutputPort | null>) {
+    this.destinations = destinations;
+  }
+
+  // Unknown ids (e.g. a deleted destination) fall back to the main output
+  private resolveDestination(destinationId?: string): string | undefined {
+    return destinationId !== undefined && this.destinations.has(destinationId) ? destinationId : undefined;
+  }
+
+  private outputFor(destinationId?: string): MidiOutputPort | null {
+    const resolved = this.resolveDestination(destinationId);
+    return resolved === undefined ? this.output : this.destinations.get(resolved) ?? null;
+  }
+
+  now(): number {
+    return this.scheduler.now();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  getActiveNotes(): ActiveNoteState[] {
+    return this.activeNotes;
+  }
+
+  getStepPositions(): Record<string, number> {
+    return this.stepPositions;
+  }
+
+  getTempoState(): TempoState {
+    return this.tempoState;
+  }
+
+  getTransportState(): TransportState {
+    return this.transportState;
+  }
+
+  // Mapping ids with a launch waiting for the next quantize boundary
+  getQueuedLaunches(): Record<string, boolean> {
+    return this.queuedLaunches;
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private setActiveNotes(next: ActiveNoteState[]) {
+    this.activeNotes = next;
+    this.emit();
+  }
+
+  private setStepPosition(seqId: string, position: number) {
+    this.stepPositions = { ...this.stepPositions, [seqId]: position };
+    this.emit();
+  }
+
+  private updateTempoState() {
+    const { bpm, isRunning } = this.clockFollower;
+    const source = this.tempoState.source;
+    // Only publish what the UI can show (0.1 BPM), not every clock tick
+    const shownBpm = source === 'midi' && bpm !== null ? Math.round(bpm * 10) / 10 : null;
+    if (shownBpm === this.tempoState.bpm && isRunning === this.tempoState.isRunning) return;
+    this.tempoState = { source, bpm: shownBpm, isRunning };
+    this.emit();
+  }
+
+  // ===== Tempo =====
+
+  setClockSource(source: ClockSource) {
+    if (source === this.tempoState.source) return;
+    this.clockFollower.reset();
+    this.tempoState = { source, bpm: null, isRunning: false };
+    this.emit();
+  }
+
+  receiveClockTick(time: number) {
+    if (this.tempoState.source !== 'midi') return;
+    if (this.clockFollower.tick(time)) this.updateTempoState();
+  }
+
+  receiveClockTransport(message: 'start' | 'stop' | 'continue') {
+    if (this.tempoState.source !== 'midi') return;
+    if (message === 'start') this.clockFollower.start();
+    else if (message === 'continue') this.clockFollower.continue();
+    else {
+      this.clockFollower.stop();
+      // The tempo master stopped: AUTO sequences stop with it
+      this.stopAutoPlaybacks(() => true);
+    }
+    this.updateTempoState();
+  }
+
+  // Tap tempo for the TAP_TEMPO action; returns the tapped BPM once measurable.
+  // The caller writes it to Song.bpm, which beat durations and running AUTO sequences read live.
+  tap(): number | null {
+    return this.tapTempo.tap(this.clock.now());
+  }
+
+  // ===== Launch quantization =====
+
+  // Next `quantize` boundary of the shared transport: our own MIDI clock while sending it, the
+  // followed MIDI clock while it runs, otherwise an internal grid started by the first quantized launch
+  nextLaunchTime(quantize: LaunchQuantize): number {
+    const now = this.clock.now();
+    const division = QUANTIZE_BEATS[quantize];
+    if (!division) return now;
+    const divisionTicks = division * MIDI_CLOCK_PPQN;
+    const external = this.tempoState.source === 'midi'
+      ? this.clockFollower.nextBoundary(divisionTicks)
+      : this.clockMaster.nextBoundary(divisionTicks);
+    if (external !== null) return Math.max(now, external);
+
+    const bpm = this.resolveBpm(this.song?.bpm || 120);
+    if (!this.beatGrid.isStarted) this.beatGrid.start(now, bpm);
+    else this.beatGrid.setTempo(now, bpm);
+    return this.beatGrid.nextBoundary(now, division);
+  }
+
+  // Runs `action` now, or for quantized launches at the next boundary with the launch time.
+  // Only one launch per mapping instance is queued; re-triggers while queued are dropped.
+  quantizeTrigger(mappingId: string, triggerValue: string | number, quantize: LaunchQuantize, isRelease: boolean, action: (time?: number) => void) {
+    const instanceId = `${mappingId}_${triggerValue}`;
+    const pending = this.pendingLaunches.get(instanceId);
+
+    if (isRelease) {
+      if (pending) pending.release = { action: () => action(), heldMs: this.clock.now() - pending.pressTime };
+      else action();
+      return;
+    }
+    if (pending) return;
+    if (quantize === 'none') {
+      action();
+      return;
+    }
+
+    // Registered before scheduling: a boundary within the lookahead launches synchronously
+    const launch: PendingLaunch = { mappingId, eventId: 0, pressTime: this.clock.now() };
+    this.pendingLaunches.set(instanceId, launch);
+    this.updateQueuedLaunches();
+    launch.eventId = this.scheduler.schedule(this.nextLaunchTime(quantize), time => {
+      this.pendingLaunches.delete(instanceId);
+      this.updateQueuedLaunches();
+      action(time);
+      const release = launch.release;
+      if (release) this.scheduler.schedule(time + release.heldMs, () => release.action());
+    });
+  }
+
+  private cancelPendingLaunches() {
+    this.pendingLaunches.forEach(launch => this.scheduler.cancel(launch.eventId));
+    this.pendingLaunches.clear();
+    this.updateQueuedLaunches();
+  }
+
+  private updateQueuedLaunches() {
+    const next: Record<string, boolean> = {};
+    this.pendingLaunches.forEach(launch => next[launch.mappingId] = true);
+    const prevKeys = Object.keys(this.queuedLaunches);
+    if (prevKeys.length === Object.keys(next).length && prevKeys.every(k => next[k])) return;
+    this.queuedLaunches = next;
+    this.emit();
+  }
+
+  // ===== Transport (MIDI clock master) =====
+
+  setClockOutput(port: MidiTransportPort | null) {
+    this.clockMaster.setOutput(port);
+    this.updateTransportState();
+  }
+
+  transportStart() {
+    this.clockMaster.start();
+    this.updateTransportState();
+  }
+
+  transportStop() {
+    this.clockMaster.stop();
+    this.updateTransportState();
+  }
+
+  transportContinue() {
+    this.clockMaster.continue();
+    this.updateTransportState();
+  }
+
+  private updateTransportState() {
+    const isEnabled = this.clockMaster.hasOutput;
+    const isRunning = this.clockMaster.isRunning;
+    if (isEnabled === this.transportState.isEnabled && isRunning === this.transportState.isRunning) return;
+    this.transportState = { isEnabled, isRunning };
+    this.emit();
+  }
+
+  // The followed MIDI clock tempo overrides song/sequence tempo while locked
+  private get externalBpm(): number | null {
+    return this.tempoState.source === 'midi' ? this.clockFollower.bpm : null;
+  }
+
+  private resolveBpm(bpm: number): number {
+    return this.externalBpm ?? bpm;
+  }
+
+  private sequenceBpm(seq: Sequence | undefined): number {
+    return this.resolveBpm(seq?.bpm || this.song?.bpm || 120);
+  }
+
+  // Glissando speed is authored against the song tempo; scale it when following an external clock
+  private glissandoStepMs(config: GlissandoConfig): number {
+    const external = this.externalBpm;
+    const songBpm = this.song?.bpm;
+    if (!external || !songBpm) return config.speed;
+    return config.speed * songBpm / external;
+  }
+
+  // `time` is an absolute clock timestamp; omitted means "as soon as possible"
+  sendNoteOn(pitch: number, velocity: number, channel: number, durationMs: number | null, time?: number, destinationId?: string) {
+    // Counted under the port the note actually goes to, so a fallback shares the main output's count
+    const destination = this.resolveDestination(destinationId);
+    const output = this.outputFor(destination);
+    if (!output) return;
+
+    const noteKey = noteKeyOf({ pitch, channel, destinationId: destination });
+    const currentCount = this.noteRefCount.get(noteKey) || 0;
+
+    // If note is already playing, retrigger it (Note Off then Note On)
+    // This ensures the new source's velocity/attack is applied
+    if (currentCount > 0) {
+      output.noteOff(pitch, channel, time);
+    }
+
+    // Always send Note On to retrigger with new velocity
+    output.noteOn(pitch, velocity, channel, time);
+
+    // Increment reference count
+    this.noteRefCount.set(noteKey, currentCount + 1);
+
+    const filtered = this.activeNotes.filter(n => noteKeyOf(n) !== noteKey);
+    this.setActiveNotes([...filtered, { pitch, channel, destinationId: destination, startTime: this.clock.now(), durationMs }]);
+  }
+
+  sendNoteOff(pitch: number, channel: number, time?: number, destinationId?: string) {
+    const destination = this.resolveDestination(destinationId);
+    const output = this.outputFor(destination);
+    if (!output) return;
+
+    const noteKey = noteKeyOf({ pitch, channel, destinationId: destination });
+    const currentCount = this.noteRefCount.get(noteKey) || 0;
+
+    if (currentCount <= 1) {
+      // Last source released this note - actually send MIDI Note Off
+      output.noteOff(pitch, channel, time);
+      this.noteRefCount.delete(noteKey);
+      this.setActiveNotes(this.activeNotes.filter(n => noteKeyOf(n) !== noteKey));
+    } else {
+      // Other sources still holding this note - just decrement count
+      this.noteRefCount.set(noteKey, currentCount - 1);
+    }
+  }
+
+  // CC64 from the player. Pedal up runs the releases that were waiting on this channel.
+  receiveSustainPedal(channel: number, value: number) {
+    if (value >= 64) {
+      if (this.song?.sustainPedal) this.sustainPedals.add(channel);
+      return;
+    }
+    if (!this.sustainPedals.delete(channel)) return;
+    Array.from(this.deferredReleases.entries()).forEach(([key, deferred]) => {
+      if (this.isSustainHeld(deferred.channel)) return;
+      this.deferredReleases.delete(key);
+      deferred.release();
+    });
+  }
+
+  // Input channel 0 (Omni) is held by a pedal on any channel
+  private isSustainHeld(channel: number): boolean {
+    return channel === 0 ? this.sustainPedals.size > 0 : this.sustainPedals.has(channel);
+  }
+
+  // Keeps a release for pedal up if the song uses the pedal and it is down; false = release now
+  private deferRelease(key: string, channel: number, release: () => void): boolean {
+    if (!this.song?.sustainPedal || !this.isSustainHeld(channel)) return false;
+    this.deferredReleases.set(key, { channel, release });
+    return true;
+  }
+
+  private mappingInputChannel(mappingId: string): number {
+    return this.song?.mappings.find(m => m.id === mappingId)?.midiChannel ?? 0;
+  }
+
+  // MIDI thru: plays an incoming note (velocity 0-1) through the zones of the current song and
+  // scene. The routed notes are remembered per input key, so a zone edited while the key is down
+  // still releases what was played.
+  playThruNote(pitch: number, velocity: number, channel: number, inputId = '') {
+    const sourceId = `thru:${inputId}:${channel}-${pitch}`;
+    this.deferredReleases.delete(sourceId);
+    this.clearSustainedNotes(sourceId);
+    if (!this.song) return;
+    routeThruNote(getActiveThruZones(this.song), pitch, velocity, channel).forEach(note => {
+      this.sendNoteOn(note.pitch, note.velocity, note.channel, null, undefined, note.destinationId);
+      this.recordSustainedNote(sourceId, note);
+    });
+  }
+
+  releaseThruNote(pitch: number, channel: number, inputId = '') {
+    const sourceId = `thru:${inputId}:${channel}-${pitch}`;
+    const release = () => this.clearSustainedNotes(sourceId);
+    if (!this.deferRelease(sourceId, channel, release)) release();
+  }
+
+  stopAllNotes() {
+    const outputs = new Set([this.output, ...this.destinations.values()]);
+    outputs.forEach(output => {
+      if (!output) return;
+      for (let i = 1; i <= 16; i++) {
+        output.controlChange(123, 0, i);
+      }
+    });
+    this.setActiveNotes([]);
+    this.noteTimers.forEach(timer => {
+      this.scheduler.cancel(timer.onEventId);
+      this.scheduler.cancel(timer.offEventId);
+    });
+    this.noteTimers.clear();
+    this.autoPlaybacks.forEach(pb => pb.pendingEventIds.forEach(id => this.scheduler.cancel(id)));
+    this.autoPlaybacks = [];
+    this.arpRuns.forEach(run => run.pendingEventIds.forEach(id => this.scheduler.cancel(id)));
+    this.arpRuns = [];
+    this.glissandoJobs.forEach(job => job.pendingEventIds.forEach(id => this.scheduler.cancel(id)));
+    this.glissandoJobs.clear();
+    this.controllerRuns.forEach(run => run.pendingEventIds.forEach(id => this.scheduler.cancel(id)));
+    this.controllerRuns.clear();
+    this.cancelPendingLaunches();
+    this.sustainedNotesBySource.clear();
+    this.lastTriggeredIndexByInstance.clear();
+    this.lastGroupTriggerByInstance.clear();
+    this.activeMappingByTarget.clear();
+    this.pressVelocityByInstance.clear();
+    this.deferredReleases.clear();
+    this.sustainPedals.clear();
+    this.noteRefCount.clear(); // Clear reference counts on panic
+  }
+
+  private clearSustainedNotes(sourceId: string) {
+    const set = this.sustainedNotesBySource.get(sourceId);
+    if (set) {
+      set.forEach(n => this.sendNoteOff(n.pitch, n.channel, undefined, n.destinationId));
+      // Those notes are over; their timers must not release them a second time
+      this.noteTimers.forEach((timer, timerKey) => {
+        if (timer.sourceId === sourceId && timer.isPlaying && set.has(noteKeyOf(timer))) this.noteTimers.delete(timerKey);
+      });
+      set.clear();
+    }
+    // Open-ended arpeggios count as sustained
+    this.stopArpeggios(run => run.sourceId === sourceId && run.stepsLeft === null && run.endTime === null);
+  }
+
+  private recordSustainedNote(sourceId: string, note: NoteRef) {
+    let set = this.sustainedNotesBySource.get(sourceId);
+    if (!set) {
+      set = new Map();
+      this.sustainedNotesBySource.set(sourceId, set);
+    }
+    const { pitch, channel, destinationId } = note;
+    set.set(noteKeyOf(note), { pitch, channel, destinationId });
+  }
+
+  // Schedules every glissando step up front as a job under `key` and returns the time the run ends.
+  // A job already running under the same key is aborted first.
+  // With `sustain`, the last note becomes a note timer that ends with the chord: on release, or
+  // `chordMs` after the run when the chord has a duration.
+  private startGlissando(key: string, sourceId: string, start: number, end: number, config: GlissandoConfig, target: Omit<NoteRef, 'pitch'>, startTime: number, velocity?: TriggerVelocity, sustain?: { timerKey: string, chordMs: number | null }): number {
+    const { channel, destinationId } = target;
+    this.stopGlissandos(job => job.key === key);
+    const steps = getGlissandoSteps(start, end, config.mode, config);
+    if (steps.length === 0) return startTime;
+    const timing = getGlissandoTiming(steps.length, this.glissandoStepMs(config), config.acceleration);
+    const last = timing[timing.length - 1];
+    const runEnd = startTime + last.offset + last.length;
+    const shape = GLISSANDO_VELOCITY_CURVES[config.velocityCurve ?? 'linear'];
+    const overlap = 1 + Math.min(1, Math.max(0, config.legato ?? 0));
+    const job: GlissandoJob = { key, sourceId, endTime: runEnd, pendingEventIds: new Set(), sounding: new Map(), lastPitch: null, landing: null };
+    // Drops the job once its last event has run
+    const settle = () => {
+      if (job.pendingEventIds.size === 0 && this.glissandoJobs.get(key) === job) this.glissandoJobs.delete(key);
+    };
+    for (let i = 0; i < steps.length; i++) {
+      const pitch = steps[i];
+      const t = shape(i / (steps.length - 1 || 1));
+      const vel = shapeVelocity(start < end
+        ? config.lowestVelocity + t * (config.targetVelocity - config.lowestVelocity)
+        : config.targetVelocity + t * (config.lowestVelocity - config.targetVelocity), velocity);
+      const stepTime = startTime + timing[i].offset;
+      if (sustain && i === steps.length - 1) {
+        const durationMs = sustain.chordMs === null ? null : runEnd - stepTime + sustain.chordMs;
+        const note = { pitch, velocity: vel, channel, destinationId, preDelay: 0, duration: durationMs, durationUnit: 'ms' as const };
+        this.scheduleNoteTimer(sustain.timerKey, note, durationMs, sourceId, stepTime);
+        job.landing = { timerKey: sustain.timerKey, note, time: stepTime, length: timing[i].length };
+        this.scheduleTracked(stepTime, job.pendingEventIds, () => {
+          job.lastPitch = pitch;
+          settle();
+        });
+        break;
+      }
+      const noteMs = timing[i].length * overlap;
+      const noteKey = noteKeyOf({ pitch, channel, destinationId });
+      this.scheduleTracked(stepTime, job.pendingEventIds, time => {
+        job.lastPitch = pitch;
+        job.sounding.set(noteKey, { pitch, channel, destinationId, onTime: time });
+        this.sendNoteOn(pitch, vel, channel, noteMs, time, destinationId);
+      });
+      this.scheduleTracked(stepTime + noteMs, job.pendingEventIds, time => {
+        job.sounding.delete(noteKey);
+        this.sendNoteOff(pitch, channel, time, destinationId);
+        settle();
+      });
+    }
+    // Everything may already have been dispatched inside the lookahead
+    if (job.pendingEventIds.size > 0) this.glissandoJobs.set(key, job);
+    return runEnd;
+  }
+
+  // Cancels the remaining steps of matching glissandos and ends the notes they are sounding,
+  // including a sustained landing note
+  private stopGlissandos(match: (job: GlissandoJob) => boolean) {
+    Array.from(this.glissandoJobs.values()).filter(match).forEach(job => {
+      this.glissandoJobs.delete(job.key);
+      job.pendingEventIds.forEach(id => this.scheduler.cancel(id));
+      job.sounding.forEach(n => this.sendNoteOff(n.pitch, n.channel, Math.max(this.scheduler.now(), n.onTime), n.destinationId));
+      const landing = job.landing && this.noteTimers.get(job.landing.timerKey);
+      if (job.landing && landing) this.releaseNoteTimer(job.landing.timerKey, landing.pitch, landing.channel);
+    });
+  }
+
+  // Auditions a glissando's attack run on its own, as the editor's preview
+  previewGlissando(config: GlissandoConfig, channel: number, destinationId?: string) {
+    // A sustained landing note is held for a second so it can be heard
+    const sustain = config.sustainLastNote ? { timerKey: 'preview_gliss_landing', chordMs: 1000 } : undefined;
+    this.startGlissando('preview_gliss', 'preview', config.lowestNote, config.targetNote, config, { channel, destinationId }, this.scheduler.now(), undefined, sustain);
+  }
+
+  // Schedules a note-on at startTime (+preDelay) and, for finite durations, its note-off
+  private scheduleNoteTimer(timerKey: string, note: Omit<NoteItem, 'id'>, durationMs: number | null, sourceId: string, startTime: number) {
+    // Re-triggered before the previous note ended: end it first so the ref-count stays balanced
+    const old = this.noteTimers.get(timerKey);
+    if (old) this.releaseNoteTimer(timerKey, old.pitch, old.channel);
+
+    const state: NoteTimerState = { isPlaying: false, onEventId: null, offEventId: null, onTime: startTime + (note.preDelay || 0), pitch: note.pitch, channel: note.channel, destinationId: note.destinationId, sourceId };
+    this.noteTimers.set(timerKey, state);
+    state.onEventId = this.scheduler.schedule(state.onTime, time => {
+      state.isPlaying = true;
+      this.sendNoteOn(note.pitch, note.velocity, note.channel, durationMs, time, note.destinationId);
+      if (durationMs === null) {
+        this.recordSustainedNote(sourceId, note);
+      } else {
+        state.offEventId = this.scheduler.schedule(time + durationMs, offTime => {
+          this.sendNoteOff(note.pitch, note.channel, offTime, note.destinationId);
+          this.noteTimers.delete(timerKey);
+        });
+      }
+    });
+  }
+
+  // Cancels a pending note and turns it off if it already started
+  private releaseNoteTimer(timerKey: string, pitch: number, channel: number) {
+    const existing = this.noteTimers.get(timerKey);
+    if (!existing) return;
+    this.scheduler.cancel(existing.onEventId);
+    this.scheduler.cancel(existing.offEventId);
+    // The note-on may have been dispatched ahead with a future timestamp; never send the off before it
+    if (existing.isPlaying) this.sendNoteOff(pitch, channel, Math.max(this.scheduler.now(), existing.onTime), existing.destinationId);
+    this.sustainedNotesBySource.get(existing.sourceId)?.delete(noteKeyOf(existing));
+    this.noteTimers.delete(timerKey);
+  }
+
+  // Releases every note a source instance has pending or sounding (e.g. a stopped AUTO playback)
+  private releaseNoteTimersWithPrefix(prefix: string) {
+    Array.from(this.noteTimers.entries()).forEach(([timerKey, timer]) => {
+      if (timerKey.startsWith(prefix)) this.releaseNoteTimer(timerKey, timer.pitch, timer.channel);
+    });
+    this.stopArpeggios(run => run.key.startsWith(prefix));
+    this.stopGlissandos(job => job.key.startsWith(prefix));
+    Array.from(this.controllerRuns.keys()).forEach(key => {
+      if (key.startsWith(prefix)) this.stopControllers(key);
+    });
+  }
+
+  // Schedules an event whose id is kept in `ids` until it runs, so it can be cancelled.
+  // Events inside the scheduler's lookahead are dispatched before schedule() returns.
+  private scheduleTracked(time: number, ids: Set<number>, run: (time: number) => void) {
+    let eventId: number | null = null;
+    let dispatched = false;
+    eventId = this.scheduler.schedule(time, t => {
+      dispatched = true;
+      if (eventId !== null) ids.delete(eventId);
+      run(t);
+    });
+    if (!dispatched) ids.add(eventId);
+  }
+
+  // Bank select (when set), then the program change
+  private sendProgramChange(pc: ProgramChange, time?: number, destinationId?: string) {
+    const output = this.outputFor(destinationId);
+    if (!output) return;
+    if (pc.bankMsb !== null && pc.bankMsb !== undefined) output.controlChange(0, pc.bankMsb, pc.channel, time);
+    if (pc.bankLsb !== null && pc.bankLsb !== undefined) output.controlChange(32, pc.bankLsb, pc.channel, time);
+    output.programChange(pc.program, pc.channel, time);
+  }
+
+  // Invalid messages are skipped; the editor flags them
+  private scheduleSysEx(hex: string, time: number, destinationId?: string) {
+    const { bytes } = parseSysExHex(hex);
+    if (bytes) this.scheduler.schedule(time, t => this.outputFor(destinationId)?.sysex(bytes, t));
+  }
+
+  // The current song's patches; sent on switching to the song and when the output changes
+  sendSongPrograms() {
+    this.song?.programChanges?.forEach(pc => this.sendProgramChange(pc));
+  }
+
+  private sendController(event: Pick<ControllerEvent, 'type' | 'channel' | 'controller'>, value: number, time?: number, destinationId?: string) {
+    const output = this.outputFor(destinationId);
+    if (!output) return;
+    if (event.type === 'cc') output.controlChange(event.controller, value, event.channel, time);
+    else if (event.type === 'pitch_bend') output.pitchBend(value, event.channel, time);
+    else output.channelPressure(value, event.channel, time);
+  }
+
+  // Schedules a preset's controller messages and ramps from startTime (+ each event's preDelay)
+  private startControllers(key: string, events: ControllerEvent[], startTime: number, destinationId?: string) {
+    this.stopControllers(key, false);
+    const run: ControllerRun = { key, events, destinationId, pendingEventIds: new Set(), lastTime: 0 };
+    this.controllerRuns.set(key, run);
+    events.forEach(event => {
+      getControllerSteps(event).forEach(step => {
+        this.scheduleTracked(startTime + (event.preDelay || 0) + step.offset, run.pendingEventIds, time => {
+          run.lastTime = Math.max(run.lastTime, time);
+          this.sendController(event, step.value, time, destinationId);
+        });
+      });
+    });
+  }
+
+  // Drops the remaining messages of a run and, unless told otherwise, sends its reset values
+  private stopControllers(key: string, sendResets: boolean = true) {
+    const run = this.controllerRuns.get(key);
+    if (!run) return;
+    this.controllerRuns.delete(key);
+    run.pendingEventIds.forEach(id => this.scheduler.cancel(id));
+    if (!sendResets) return;
+    const time = Math.max(this.scheduler.now(), run.lastTime);
+    const sent = new Set<string>();
+    run.events.forEach(event => {
+      const target = controllerTarget(event);
+      if (event.resetValue === null || event.resetValue === undefined || sent.has(target)) return;
+      sent.add(target);
+      this.sendController(event, clampControllerValue(event.type, event.resetValue), time, run.destinationId);
+    });
+  }
+
+  private startArpeggio(key: string, sourceId: string, notes: Omit<NoteItem, 'id'>[], config: ArpeggiatorConfig, bpm: number, startTime: number, runMs: number | null) {
+    this.stopArpeggios(run => run.key === key);
+    const cycle = buildArpCycle(notes, config.pattern, config.octaves);
+    if (cycle.length === 0) return;
+    this.arpRuns.push({
+      key,
+      sourceId,
+      cycle,
+      pattern: config.pattern,
+      rate: config.rate > 0 ? config.rate : 0.25,
+      gate: Math.min(1, Math.max(0.01, config.gate)),
+      bpm,
+      step: 0,
+      stepsLeft: config.cycles === null ? null : Math.max(1, config.cycles) * cycle.length,
+      nextTime: startTime,
+      endTime: runMs === null ? null : startTime + runMs,
+      pendingEventIds: new Set(),
+      sounding: new Map()
+    });
+    this.pumpArpeggios();
+  }
+
+  // Cancels the remaining steps of matching arpeggios and ends the note they are sounding
+  private stopArpeggios(match: (run: ArpRun) => boolean) {
+    const stopped = this.arpRuns.filter(match);
+    if (stopped.length === 0) return;
+    this.arpRuns = this.arpRuns.filter(run => !match(run));
+    stopped.forEach(run => {
+      run.pendingEventIds.forEach(id => this.scheduler.cancel(id));
+      run.sounding.forEach(n => this.sendNoteOff(n.pitch, n.channel, Math.max(this.scheduler.now(), n.onTime), n.destinationId));
+    });
+  }
+
+  private pumpArpeggios = () => {
+    this.arpPumpTimer = null;
+    const horizon = this.clock.now() + AUTO_COMMIT_MS;
+
+    this.arpRuns = this.arpRuns.filter(run => {
+      const isDone = () => (run.stepsLeft !== null && run.stepsLeft <= 0) || (run.endTime !== null && run.nextTime >= run.endTime);
+      while (run.nextTime < horizon && !isDone()) {
+        // Step length follows the current tempo
+        const stepMs = run.rate * 60000 / this.resolveBpm(run.bpm);
+        const gateMs = stepMs * run.gate;
+        const note = arpStepNote(run.cycle, run.pattern, run.step);
+        if (note) {
+          const noteKey = noteKeyOf(note);
+          this.scheduleTracked(run.nextTime, run.pendingEventIds, time => {
+            run.sounding.set(noteKey, { pitch: note.pitch, channel: note.channel, destinationId: note.destinationId, onTime: time });
+            this.sendNoteOn(note.pitch, note.velocity, note.channel, gateMs, time, note.destinationId);
+          });
+          this.scheduleTracked(run.nextTime + gateMs, run.pendingEventIds, time => {
+            run.sounding.delete(noteKey);
+            this.sendNoteOff(note.pitch, note.channel, time, note.destinationId);
+          });
+        }
+        run.step++;
+        if (run.stepsLeft !== null) run.stepsLeft--;
+        run.nextTime += stepMs;
+      }
+      return !isDone() || run.pendingEventIds.size > 0;
+    });
+
+    if (this.arpRuns.length > 0 && this.arpPumpTimer === null) {
+      this.arpPumpTimer = this.clock.setTimeout(this.pumpArpeggios, AUTO_PUMP_MS);
+    }
+  };
+
+  private triggerDirectNote(note: Omit<NoteItem, 'id'>, mappingId: string, triggerValue: string | number, sourceId: string, bpm: number, overrideDuration: number | null | undefined = undefined, overrideUnit: DurationUnit = 'ms', startTime?: number, velocity?: TriggerVelocity) {
+    const timerKey = `${sourceId}_${mappingId}_${triggerValue}_${note.pitch}`;
+    this.deferredReleases.delete(`note:${timerKey}`);
+    const durVal = overrideDuration !== undefined ? overrideDuration : note.duration;
+    const durUnit = overrideDuration !== undefined ? overrideUnit : note.durationUnit;
+    const durationMs = calculateMs(durVal, durUnit, this.resolveBpm(bpm));
+    const seqHumanize = this.song?.sequences.find(s => s.id === sourceId)?.humanize;
+    const time = startTime ?? this.scheduler.now();
+    this.scheduleNoteTimer(timerKey, this.humanizeNote({ ...note, velocity: shapeVelocity(note.velocity, velocity) }, sourceId, seqHumanize, time), durationMs, sourceId, time);
+  }
+
+  // Varies a note's start (via preDelay, never before now) and velocity for this one playback
+  private humanizeNote<T extends Omit<NoteItem, 'id'>>(note: T, ownerId: string, config: HumanizeConfig | undefined, startTime: number): T {
+    if (!config || (!config.timingMs && !config.velocity)) return note;
+    const { offsetMs, velocity } = this.humanizer.vary(ownerId, config, note.velocity);
+    const preDelay = Math.max((note.preDelay || 0) + offsetMs, this.scheduler.now() - startTime);
+    return { ...note, preDelay, velocity };
+  }
+
+  triggerPreset(presetId: string, isRelease: boolean = false, overrideDuration: number | null | undefined = undefined, overrideUnit: DurationUnit = 'ms', bpm: number, mappingId: string = 'ui', triggerValue: string | number = 'direct', isSustainedMode: boolean = false, sourceId?: string, startTime?: number, velocity?: TriggerVelocity, transpose?: number) {
+    const preset = this.song?.presets.find(p => p.id === presetId);
+    if (!preset) return;
+    const instanceId = `${mappingId}_${triggerValue}`;
+    // Each transposition is its own source, so keys of a range can hold their chords independently.
+    // Press and release must pass the same transpose.
+    const effectiveSourceId = sourceId || (transpose === undefined ? presetId : `${presetId}@${transpose}`);
+    // Notes without a destination of their own play through the preset's
+    const routed = preset.destinationId ? preset.notes.map(note => ({ ...note, destinationId: note.destinationId ?? preset.destinationId })) : preset.notes;
+    const notes = !transpose ? routed : routed
+      .map(note => ({ ...note, pitch: note.pitch + transpose }))
+      .filter(note => note.pitch >= 0 && note.pitch <= 127);
+    const gliss = preset.glissando && transpose
+      ? { ...preset.glissando, lowestNote: clampPitch(preset.glissando.lowestNote + transpose), targetNote: clampPitch(preset.glissando.targetNote + transpose) }
+      : preset.glissando;
+    const velocityKey = `${effectiveSourceId}_${instanceId}`;
+    const arpKey = `${effectiveSourceId}_${mappingId}_${triggerValue}_arp`;
+    const glissKey = `${effectiveSourceId}_${mappingId}_${triggerValue}_gliss`;
+    const glissTarget = { channel: preset.notes[0]?.channel || 1, destinationId: routed[0]?.destinationId ?? preset.destinationId };
+    const controllerKey = `${effectiveSourceId}_${mappingId}_${triggerValue}_ctl`;
+    const releaseKey = `preset:${presetId}:${effectiveSourceId}_${instanceId}`;
+
+    // Releases this instance's own notes and runs; a release held by the sustain pedal runs it later,
+    // when another instance may have become the target's owner
+    const releaseInstance = (releaseTime: number) => {
+      const pressVelocity = this.pressVelocityByInstance.get(velocityKey);
+      this.pressVelocityByInstance.delete(velocityKey);
+      // Arpeggios set to a number of cycles play out regardless of release
+      if (preset.arpeggiator?.enabled && preset.arpeggiator.cycles === null) this.stopArpeggios(run => run.key === arpKey);
+      notes.forEach(note => {
+        this.releaseNoteTimer(`${effectiveSourceId}_${mappingId}_${triggerValue}_${note.id}`, note.pitch, note.channel);
+      });
+      this.stopControllers(controllerKey);
+      const attack = this.glissandoJobs.get(glissKey);
+      const policy = gliss?.earlyRelease ?? 'finish';
+      let releaseFrom = gliss?.targetNote;
+      let releaseStart = releaseTime;
+      if (attack && policy === 'finish') {
+        // The attack plays out, its landing note for one step, then the release run follows
+        const landing = this.noteTimers.get(glissKey);
+        if (landing && !landing.isPlaying && attack.landing) {
+          const { note, time, length } = attack.landing;
+          this.scheduleNoteTimer(glissKey, note, length, effectiveSourceId, time);
+        } else if (landing) {
+          this.releaseNoteTimer(glissKey, landing.pitch, landing.channel);
+        }
+        releaseStart = Math.max(releaseTime, attack.endTime);
+      } else {
+        if (attack) {
+          // A jump continues down from wherever the attack had got to; if it had not started, nothing sounds
+          releaseFrom = policy === 'jump_to_release' ? attack.lastPitch ?? undefined : undefined;
+          this.stopGlissandos(job => job === attack);
+        }
+        const landing = this.noteTimers.get(glissKey);
+        if (landing) this.releaseNoteTimer(glissKey, landing.pitch, landing.channel);
+      }
+      if (gliss?.releaseEnabled && releaseFrom !== undefined) {
+        this.startGlissando(`${glissKey}_release`, effectiveSourceId, releaseFrom, gliss.lowestNote, gliss, glissTarget, releaseStart, pressVelocity);
+      }
+    };
+
+    if (isRelease) {
+      if (this.activeMappingByTarget.get(effectiveSourceId) !== instanceId) return;
+      if (isSustainedMode) return;
+      if (this.deferRelease(releaseKey, this.mappingInputChannel(mappingId), () => releaseInstance(this.scheduler.now()))) return;
+      releaseInstance(startTime ?? this.scheduler.now());
+    } else {
+      this.activeMappingByTarget.set(effectiveSourceId, instanceId);
+      // The re-trigger takes over the notes a pedal was still holding
+      this.deferredReleases.delete(releaseKey);
+      // A re-trigger replaces whatever this instance's glissandos were still playing
+      this.stopGlissandos(job => job.key.startsWith(glissKey));
+      if (velocity) this.pressVelocityByInstance.set(velocityKey, velocity);
+      else this.pressVelocityByInstance.delete(velocityKey);
+      let chordTime = startTime ?? this.scheduler.now();
+      // Queued first, so it goes out ahead of anything else at the same time
+      const programChange = preset.programChange;
+      if (programChange) this.scheduler.schedule(chordTime, time => this.sendProgramChange(programChange, time, preset.destinationId));
+      preset.sysex?.forEach(event => this.scheduleSysEx(event.hex, chordTime + (event.preDelay || 0), preset.destinationId));
+      if (gliss?.attackEnabled) {
+        // The chord lands once the attack run has finished
+        const sustain = gliss.sustainLastNote
+          ? { timerKey: glissKey, chordMs: overrideDuration !== undefined ? calculateMs(overrideDuration, overrideUnit, this.resolveBpm(bpm)) : null }
+          : undefined;
+        chordTime = this.startGlissando(glissKey, effectiveSourceId, gliss.lowestNote, gliss.targetNote, gliss, glissTarget, chordTime, velocity, sustain);
+      }
+      // Controller messages start with the chord, after any attack run
+      if (preset.controllers?.length) this.startControllers(controllerKey, preset.controllers, chordTime, preset.destinationId);
+      if (preset.arpeggiator?.enabled) {
+        // A duration given by a sequence item bounds the run; otherwise it lasts until release or its cycles are done
+        const runMs = overrideDuration !== undefined ? calculateMs(overrideDuration, overrideUnit, this.resolveBpm(bpm)) : null;
+        const arpNotes = notes.map(note => ({ ...note, velocity: shapeVelocity(note.velocity, velocity) }));
+        this.startArpeggio(arpKey, effectiveSourceId, arpNotes, preset.arpeggiator, bpm, chordTime, runMs);
+        return;
+      }
+      // The preset's own humanize, else that of the sequence playing it
+      const sourceSeq = sourceId ? this.song?.sequences.find(s => s.id === sourceId) : undefined;
+      const humanize = preset.humanize ?? sourceSeq?.humanize;
+      const humanizeOwner = preset.humanize ? preset.id : (sourceSeq?.id ?? preset.id);
+      notes.forEach(note => {
+        const timerKey = `${effectiveSourceId}_${mappingId}_${triggerValue}_${note.id}`;
+        const durVal = overrideDuration !== undefined ? overrideDuration : note.duration;
+        const durUnit = overrideDuration !== undefined ? overrideUnit : note.durationUnit;
+        const durationMs = calculateMs(durVal, durUnit, this.resolveBpm(bpm));
+        this.scheduleNoteTimer(timerKey, this.humanizeNote({ ...note, velocity: shapeVelocity(note.velocity, velocity) }, humanizeOwner, humanize, chordTime), durationMs, effectiveSourceId, chordTime);
+      });
+    }
+  }
+
+  // `ancestors` are the sequences this item is (transitively) placed in, used to refuse cycles
+  private triggerSequenceItem(item: SequenceItem, bpm: number, mappingId: string, triggerValue: string | number, sourceId: string, startTime?: number, ancestors: string[] = [sourceId], velocity?: TriggerVelocity) {
+    if (item.type === 'preset' && item.targetId) {
+      this.triggerPreset(item.targetId, false, item.overrideDuration, item.overrideDurationUnit ?? 'ms', bpm, mappingId, triggerValue, item.sustainUntilNext, sourceId, startTime, velocity);
+    } else if (item.type === 'note' && item.noteData) {
+      this.triggerDirectNote(item.noteData, mappingId, triggerValue, sourceId, bpm, item.overrideDuration, item.overrideDurationUnit ?? 'ms', startTime, velocity);
+    } else if (item.type === 'sequence' && item.targetId) {
+      const subSeq = this.song?.sequences.find(s => s.id === item.targetId);
+      if (!subSeq || ancestors.includes(subSeq.id)) return;
+      // A nested timeline plays out from the item's position; STEP/GROUP sequences advance one step
+      if (subSeq.mode === SequenceMode.AUTO) {
+        this.startAutoPlayback(subSeq, mappingId, triggerValue, startTime ?? this.scheduler.now(), ancestors, velocity);
+      } else {
+        this.advanceSequence(subSeq, mappingId, triggerValue, startTime, ancestors, velocity);
+      }
+    } else if (item.type === 'sysex' && item.sysexHex) {
+      this.scheduleSysEx(item.sysexHex, startTime ?? this.scheduler.now());
+    }
+  }
+
+  // Releases a STEP/GROUP item previously triggered by this mapping instance
+  private releaseSequenceItem(item: SequenceItem | undefined, bpm: number, mappingId: string, triggerValue: string | number, seqId: string) {
+    if (!item || item.sustainUntilNext) return;
+    if (item.type === 'preset' && item.targetId) {
+      this.triggerPreset(item.targetId, true, item.overrideDuration, item.overrideDurationUnit ?? 'ms', bpm, mappingId, triggerValue, false, seqId);
+    } else if (item.type === 'note' && item.noteData) {
+      const { pitch, channel } = item.noteData;
+      const timerKey = `${seqId}_${mappingId}_${triggerValue}_${pitch}`;
+      const release = () => this.releaseNoteTimer(timerKey, pitch, channel);
+      if (!this.deferRelease(`note:${timerKey}`, this.mappingInputChannel(mappingId), release)) release();
+    }
+  }
+
+  private startAutoPlayback(seq: Sequence, mappingId: string, triggerValue: string | number, launchTime?: number, ancestors: string[] = [], velocity?: TriggerVelocity) {
+    // While sending clock, a launched timeline starts on the tick grid and external gear is cued so its
+    // start is a downbeat. Nested timelines follow the parent the gear is already cued to.
+    const startTime = ancestors.length > 0 && launchTime !== undefined ? launchTime : this.clockMaster.alignToBar(launchTime);
+    const loopLength = seq.loop ? getAutoLoopLength(seq) : null;
+    this.autoPlaybacks.push({
+      seqId: seq.id,
+      ancestors,
+      velocity,
+      mappingId,
+      triggerValue,
+      items: [...seq.items]
+        .filter(item => loopLength === null || item.beatPosition < loopLength)
+        .sort((a, b) => a.beatPosition - b.beatPosition),
+      loopLength,
+      passStartBeat: 0,
+      nextItemIdx: 0,
+      committedBeat: 0,
+      committedTime: startTime,
+      pendingEventIds: new Set()
+    });
+    // A sequence nested at the start of its parent launches mid-pump; that pass picks it up
+    if (!this.isPumpingAuto) this.pumpAutoPlaybacks();
+  }
+
+  // Cancels the not-yet-dispatched items of matching playbacks and cuts the notes they started
+  private stopAutoPlaybacks(match: (pb: AutoPlayback) => boolean) {
+    const stopped = this.autoPlaybacks.filter(match);
+    this.autoPlaybacks = this.autoPlaybacks.filter(pb => !match(pb));
+    stopped.forEach(pb => {
+      pb.pendingEventIds.forEach(id => this.scheduler.cancel(id));
+      this.releaseAutoNotes(pb.seqId, pb.mappingId, pb.triggerValue);
+    });
+  }
+
+  // Notes started by an AUTO instance (and sequences nested in it) can outlive its playback
+  private releaseAutoNotes(seqId: string, mappingId: string, triggerValue: string | number) {
+    collectSequenceIds(this.song?.sequences ?? [], seqId).forEach(id => {
+      this.releaseNoteTimersWithPrefix(`${id}_${mappingId}_${triggerValue}_`);
+    });
+  }
+
+  // The top-level sequence a playback was launched from
+  private isPlaybackOf(pb: AutoPlayback, seqId: string): boolean {
+    return (pb.ancestors[0] ?? pb.seqId) === seqId;
+  }
+
+  private isAutoPlaying(seqId: string): boolean {
+    return this.autoPlaybacks.some(pb => this.isPlaybackOf(pb, seqId));
+  }
+
+  private pumpAutoPlaybacks = () => {
+    this.autoPumpTimer = null;
+    const horizon = this.clock.now() + AUTO_COMMIT_MS;
+
+    // Indexed so playbacks launched by items dispatched in this pass are committed in it too
+    this.isPumpingAuto = true;
+    for (let i = 0; i < this.autoPlaybacks.length; i++) {
+      const pb = this.autoPlaybacks[i];
+      if (horizon > pb.committedTime) {
+        const seq = this.song?.sequences.find(s => s.id === pb.seqId);
+        const msPerBeat = 60000 / this.sequenceBpm(seq);
+        const endBeat = pb.committedBeat + (horizon - pb.committedTime) / msPerBeat;
+        while (true) {
+          if (pb.nextItemIdx >= pb.items.length) {
+            // Wrap to the next pass once the window reaches the loop point
+            if (pb.loopLength === null || pb.passStartBeat + pb.loopLength >= endBeat) break;
+            pb.passStartBeat += pb.loopLength;
+            pb.nextItemIdx = 0;
+            continue;
+          }
+          const item = pb.items[pb.nextItemIdx];
+          const itemBeat = pb.passStartBeat + item.beatPosition;
+          if (itemBeat >= endBeat) break;
+          pb.nextItemIdx++;
+          const itemTime = pb.committedTime + Math.max(0, itemBeat - pb.committedBeat) * msPerBeat;
+          this.scheduleTracked(itemTime, pb.pendingEventIds, time => {
+            const currentSeq = this.song?.sequences.find(s => s.id === pb.seqId);
+            this.triggerSequenceItem(item, this.sequenceBpm(currentSeq), pb.mappingId, pb.triggerValue, pb.seqId, time, [...pb.ancestors, pb.seqId], pb.velocity);
+          });
+        }
+        pb.committedBeat = endBeat;
+        pb.committedTime = horizon;
+      }
+    }
+    this.isPumpingAuto = false;
+    // One-shots stay tracked until their last item has been dispatched, so they can still be stopped
+    this.autoPlaybacks = this.autoPlaybacks.filter(pb => pb.loopLength !== null || pb.nextItemIdx < pb.items.length || pb.pendingEventIds.size > 0);
+
+    if (this.autoPlaybacks.length > 0 && this.autoPumpTimer === null) {
+      this.autoPumpTimer = this.clock.setTimeout(this.pumpAutoPlaybacks, AUTO_PUMP_MS);
+    }
+  };
+
+  // One STEP/GROUP step: from a trigger, or from a sequence item placed on another sequence
+  private advanceSequence(seq: Sequence, mappingId: string, triggerValue: string | number, startTime?: number, ancestors: string[] = [], velocity?: TriggerVelocity) {
+    const effectiveBpm = this.sequenceBpm(seq);
+    const instanceId = `${mappingId}_${triggerValue}`;
+    this.clearSustainedNotes(seq.id);
+    this.activeMappingByTarget.set(seq.id, instanceId);
+    const state = this.stepOrderStates[seq.id] ??= createStepOrderState();
+    const order = seq.stepOrder ?? 'forward';
+
+    // GROUP 모드: 하위 시퀀스가 있으면 하위 시퀀스의 아이템들을 이어서 하나의 스텝 목록으로 순회
+    // A step whose conditions fail is a rest: the position moves on but nothing sounds or gets released
+    if (seq.mode === SequenceMode.GROUP && seq.items.some(item => item.type === 'sequence')) {
+      const steps = this.groupSteps(seq);
+      const { index: position, play } = takeConditionalStep(state, order, steps.map(step => step.item));
+      if (position < 0) return;
+      const { groupIdx, subIdx, item, subSeq } = steps[position];
+      if (play) {
+        this.lastGroupTriggerByInstance.set(instanceId, { groupIdx, subIdx });
+        this.triggerSequenceItem(item, this.resolveBpm(subSeq.bpm || effectiveBpm), mappingId, triggerValue, seq.id, startTime, [...ancestors, seq.id, subSeq.id], velocity);
+      } else {
+        this.lastGroupTriggerByInstance.delete(instanceId);
+      }
+      this.setStepPosition(seq.id, position);
+      return;
+    }
+
+    // STEP, and GROUP with presets/notes directly in it
+    const { index: currentIndex, play } = takeConditionalStep(state, order, seq.items);
+    if (currentIndex < 0) return;
+    if (play) {
+      this.lastTriggeredIndexByInstance.set(instanceId, currentIndex);
+      this.triggerSequenceItem(seq.items[currentIndex], effectiveBpm, mappingId, triggerValue, seq.id, startTime, [...ancestors, seq.id], velocity);
+    } else {
+      this.lastTriggeredIndexByInstance.delete(instanceId);
+    }
+    this.setStepPosition(seq.id, currentIndex);
+  }
+
+  // Every step of a GROUP's sub-sequences in chain order; the index is the group's step position
+  private groupSteps(seq: Sequence): (GroupPosition & { item: SequenceItem, subSeq: Sequence })[] {
+    return seq.items.flatMap((groupItem, groupIdx) => {
+      if (groupItem.type !== 'sequence') return [];
+      const subSeq = this.song?.sequences.find(s => s.id === groupItem.targetId);
+      return subSeq ? subSeq.items.map((item, subIdx) => ({ groupIdx, subIdx, item, subSeq })) : [];
+    });
+  }
+
+
+  // Drops re-triggers of the same instance that arrive within 30ms (double-fired inputs)
+  private isDuplicateTrigger(instanceId: string): boolean {
+    const now = this.clock.now();
+    const lastTime = this.lastTriggerTimeByMapping.get(instanceId) ?? -Infinity;
+    if (now - lastTime < 30) return true;
+    this.lastTriggerTimeByMapping.set(instanceId, now);
+    return false;
+  }
+
+  triggerSequence(seqId: string, mappingId: string, isRelease: boolean = false, triggerValue: string | number = 'direct', startTime?: number, velocity?: TriggerVelocity) {
+    const song = this.song;
+    const seq = song?.sequences.find(s => s.id === seqId);
+    if (!song || !seq) return;
+    const effectiveBpm = this.sequenceBpm(seq);
+    const instanceId = `${mappingId}_${triggerValue}`;
+
+    if (seq.mode === SequenceMode.STEP) {
+      if (isRelease) {
+        if (this.activeMappingByTarget.get(seqId) !== instanceId) return;
+        const triggeredIdx = this.lastTriggeredIndexByInstance.get(instanceId);
+        if (triggeredIdx === undefined) return;
+        this.releaseSequenceItem(seq.items[triggeredIdx], effectiveBpm, mappingId, triggerValue, seqId);
+      } else {
+        if (this.isDuplicateTrigger(instanceId)) return;
+        this.advanceSequence(seq, mappingId, triggerValue, startTime, [], velocity);
+      }
+    } else if (seq.mode === SequenceMode.AUTO) {
+      const playMode = seq.autoPlayMode ?? 'one_shot';
+      const isThisInstance = (pb: AutoPlayback) => this.isPlaybackOf(pb, seqId) && pb.mappingId === mappingId && pb.triggerValue === triggerValue;
+      if (isRelease) {
+        if (playMode === 'while_held') {
+          this.stopAutoPlaybacks(isThisInstance);
+          this.releaseAutoNotes(seqId, mappingId, triggerValue);
+        }
+        return;
+      }
+      if (this.isDuplicateTrigger(instanceId)) return;
+      // Latch: a press while playing stops it; otherwise a re-trigger restarts the sequence
+      if (playMode === 'latch' && this.isAutoPlaying(seqId)) {
+        this.stopAutoPlaybacks(pb => this.isPlaybackOf(pb, seqId));
+        return;
+      }
+      this.stopAutoPlaybacks(pb => this.isPlaybackOf(pb, seqId));
+      this.startAutoPlayback(seq, mappingId, triggerValue, startTime, [], velocity);
+    } else if (seq.mode === SequenceMode.GROUP) {
+      // GROUP 모드: 시퀀스 아이템들을 순서대로 스텝 실행
+      // 아이템이 하위 시퀀스(type: 'sequence')일 경우 그 안의 아이템들을 순회
+      // 아이템이 프리셋/노트(type: 'preset' | 'note')일 경우 직접 실행
+
+      // 하위 시퀀스가 있는지 확인
+      const hasSubSequences = seq.items.some(item => item.type === 'sequence');
+
+      if (isRelease) {
+        if (this.activeMappingByTarget.get(seqId) !== instanceId) return;
+
+        if (hasSubSequences) {
+          // 기존 하위 시퀀스 릴리즈 로직
+          const lastGroupTrigger = this.lastGroupTriggerByInstance.get(instanceId);
+          if (lastGroupTrigger) {
+            const groupItem = seq.items[lastGroupTrigger.groupIdx];
+            if (groupItem && groupItem.type === 'sequence') {
+              const subSeq = song.sequences.find(s => s.id === groupItem.targetId);
+              this.releaseSequenceItem(subSeq?.items[lastGroupTrigger.subIdx], this.resolveBpm(subSeq?.bpm || effectiveBpm), mappingId, triggerValue, seqId);
+            }
+          }
+        } else {
+          // 직접 아이템 릴리즈 로직 (프리셋/노트를 직접 포함하는 경우)
+          const triggeredIdx = this.lastTriggeredIndexByInstance.get(instanceId);
+          if (triggeredIdx !== undefined) {
+            this.releaseSequenceItem(seq.items[triggeredIdx], effectiveBpm, mappingId, triggerValue, seqId);
+          }
+        }
+        const release = () => this.clearSustainedNotes(seqId);
+        if (!this.deferRelease(`group:${seqId}_${instanceId}`, this.mappingInputChannel(mappingId), release)) release();
+      } else {
+        if (this.isDuplicateTrigger(instanceId)) return;
+        this.deferredReleases.delete(`group:${seqId}_${instanceId}`);
+        this.advanceSequence(seq, mappingId, triggerValue, startTime, [], velocity);
+      }
+    }
+  }
+
+  resetAllSequences() {
+    this.cancelPendingLaunches();
+    this.stopAutoPlaybacks(() => true);
+    this.stepOrderStates = {};
+    const reset: Record<string, number> = {};
+    Object.keys(this.stepPositions).forEach(key => reset[key] = -1);
+    this.stepPositions = reset;
+    this.emit();
+    this.sustainedNotesBySource.forEach((_, id) => this.clearSustainedNotes(id));
+    this.stopGlissandos(() => true);
+    this.lastTriggeredIndexByInstance.clear();
+    this.lastGroupTriggerByInstance.clear();
+    this.activeMappingByTarget.clear();
+    this.lastTriggerTimeByMapping.clear();
+    this.humanizer.reset();
+  }
+
+  triggerTogglePreset(presetId: string, mappingId: string = 'ui', triggerValue: string | number = 'direct') {
+    const preset = this.song?.presets.find(p => p.id === presetId);
+    if (!preset) return;
+
+    const isCurrentlyOn = this.togglePresetState.get(presetId) || false;
+
+    if (isCurrentlyOn) {
+      // Turn OFF: send note off for all notes in preset
+      preset.notes.forEach(note => {
+        this.sendNoteOff(note.pitch, note.channel, undefined, note.destinationId ?? preset.destinationId);
+      });
+      this.togglePresetState.set(presetId, false);
+    } else {
+      // Turn ON: send note on for all notes in preset (sustained indefinitely)
+      preset.notes.forEach(note => {
+        this.sendNoteOn(note.pitch, note.velocity, note.channel, null, undefined, note.destinationId ?? preset.destinationId);
+      });
+      this.togglePresetState.set(presetId, true);
+    }
+
+    return !isCurrentlyOn; // Return new state
+  }
+
+  getTogglePresetState(presetId: string): boolean {
+    return this.togglePresetState.get(presetId) || false;
+  }
+}
@@ -0,0 +1,27 @@
+import { ScaleType } from '../types';
+
+// Semitones above the root
+export const SCALE_INTERVALS: Record<Exclude<ScaleType, 'custom'>, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  natural_minor: [0, 2, 3, 5, 7, 8, 10],
+  harmonic_minor: [0, 2, 3, 5, 7, 8, 11],
+  major_pentatonic: [0, 2, 4, 7, 9],
+  minor_pentatonic: [0, 3, 5, 7, 10],
+  whole_tone: [0, 2, 4, 6, 8, 10]
+};
+
+export const SCALE_LABELS: Record<ScaleType, string> = {
+  major: 'Major',
+  natural_minor: 'Natural Minor',
+  harmonic_minor: 'Harmonic Minor',
+  major_pentatonic: 'Major Pentatonic',
+  minor_pentatonic: 'Minor Pentatonic',
+  whole_tone: 'Whole Tone',
+  custom: 'Custom'
+};
+
+// Pitch classes (0 = C) in the scale; custom sets are taken as absolute pitch classes
+export const getScalePitchClasses = (scale: ScaleType, root: number = 0, custom: number[] = []): Set<number> => {
+  if (scale === 'custom') return new Set(custom.map(pc => ((pc % 12) + 12) % 12));
+  return new Set(SCALE_INTERVALS[scale].map(interval => (root + interval) % 12));
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { createStepOrderState, takeStep, takeConditionalStep } from './stepOrder';
+import { StepOrder } from '../types';
+
+const run = (order: StepOrder, length: number, presses: number, random?: () => number) => {
+  const state = createStepOrderState();
+  return Array.from({ length: presses }, () => takeStep(state, order, length, random));
+};
+
+describe('takeStep', () => {
+  it('walks forward, backward and back and forth', () => {
+    expect(run('forward', 3, 5)).toEqual([0, 1, 2, 0, 1]);
+    expect(run('reverse', 3, 5)).toEqual([2, 1, 0, 2, 1]);
+    expect(run('ping_pong', 3, 7)).toEqual([0, 1, 2, 1, 0, 1, 2]);
+    expect(run('ping_pong', 1, 3)).toEqual([0, 0, 0]);
+  });
+
+  it('plays every step once per round when shuffling', () => {
+    const steps = run('shuffle', 4, 8);
+    expect([...steps.slice(0, 4)].sort()).toEqual([0, 1, 2, 3]);
+    expect([...steps.slice(4)].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('draws random steps and copes with an empty or shrunk sequence', () => {
+    expect(run('random', 4, 2, () => 0.6)).toEqual([2, 2]);
+    expect(run('forward', 0, 1)).toEqual([-1]);
+
+    const state = createStepOrderState();
+    takeStep(state, 'forward', 5);
+    takeStep(state, 'forward', 5);
+    takeStep(state, 'forward', 5);
+    expect(takeStep(state, 'forward', 2)).toBe(0);
+  });
+});
+
+describe('takeConditionalStep', () => {
+  const press = (steps: Parameters<typeof takeConditionalStep>[2], presses: number, random?: () => number) => {
+    const state = createStepOrderState();
+    return Array.from({ length: presses }, () => {
+      const { index, play } = takeConditionalStep(state, 'forward', steps, random);
+      return play ? index : `rest ${index}`;
+    });
+  };
+
+  it('passes over skipped steps and repeats steps before advancing', () => {
+    expect(press([{}, { skip: true }, { repeat: 2 }], 5)).toEqual([0, 2, 2, 0, 2]);
+    expect(press([{ skip: true }], 1)).toEqual(['rest -1']);
+  });
+
+  it('rests on failed probability and outside the Nth pass', () => {
+    expect(press([{ probability: 0.5 }, { probability: 0.2 }], 2, () => 0.3)).toEqual([0, 'rest 1']);
+    expect(press([{}, { everyNthPass: 2 }], 6)).toEqual([0, 'rest 1', 0, 1, 0, 'rest 1']);
+  });
+
+  it('counts passes by rounds, not by draws of skipped steps', () => {
+    const take = (order: StepOrder, steps: Parameters<typeof takeConditionalStep>[2], presses: number, random: () => number) => {
+      const state = createStepOrderState();
+      return Array.from({ length: presses }, () => takeConditionalStep(state, order, steps, random)).filter(({ index }) => index === 2).map(({ play }) => play);
+    };
+    // Each shuffle round draws the skipped step too; step 2 sounds in every second round only
+    expect(take('shuffle', [{}, { skip: true }, { everyNthPass: 2 }], 8, () => 0)).toEqual([false, true, false, true]);
+    // Random draws of the skipped step are not positions: a pass is two played steps
+    const draws = [0.9, 0.5, 0.5, 0.5, 0.9, 0.1, 0.9, 0.1];
+    let i = 0;
+    expect(take('random', [{}, { skip: true }, { everyNthPass: 2 }], 5, () => draws[i++ % draws.length])).toEqual([false, false, true]);
+  });
+});
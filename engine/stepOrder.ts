@@ -0,0 +1,86 @@
+import { StepOrder, SequenceItem } from '../types';
+
+// Where a STEP/GROUP sequence is in its traversal between presses
+export interface StepOrderState {
+  next: number | null; // index the next press plays (forward/reverse/ping-pong); null = from the start
+  direction: 1 | -1; // ping-pong
+  bag: number[]; // shuffle: indices not yet played this round
+  pass: number; // 0-based pass the last taken position belongs to; -1 before the first
+  drawn: number; // random: positions played in the current pass
+  repeatIndex: number | null; // step being repeated
+  repeatsLeft: number;
+}
+
+export const createStepOrderState = (): StepOrderState => ({ next: null, direction: 1, bag: [], pass: -1, drawn: 0, repeatIndex: null, repeatsLeft: 0 });
+
+// Index to play on this press, advancing `state`. -1 when there is nothing to play.
+export const takeStep = (state: StepOrderState, order: StepOrder, length: number, random: () => number = Math.random): number => {
+  if (length <= 0) return -1;
+
+  // Random draws have no round to wrap; takeConditionalStep counts their passes
+  if (order === 'random') return Math.floor(random() * length);
+
+  if (order === 'shuffle') {
+    // Items may have been removed since the bag was filled
+    state.bag = state.bag.filter(i => i < length);
+    if (state.bag.length === 0) {
+      state.bag = Array.from({ length }, (_, i) => i);
+      state.pass++;
+    }
+    return state.bag.splice(Math.floor(random() * state.bag.length), 1)[0];
+  }
+
+  const start = order === 'reverse' ? length - 1 : 0;
+  const index = state.next !== null && state.next < length ? state.next : start;
+  // A pass starts at the first step, and again each time the traversal comes back to it
+  if (state.next === null || index === start) state.pass++;
+  if (order === 'reverse') {
+    state.next = (index - 1 + length) % length;
+  } else if (order === 'ping_pong') {
+    // Turn around at either end without playing the end step twice
+    if (length === 1) {
+      state.next = 0;
+    } else {
+      if (index + state.direction < 0 || index + state.direction >= length) state.direction = state.direction === 1 ? -1 : 1;
+      state.next = index + state.direction;
+    }
+  } else {
+    state.next = (index + 1) % length;
+  }
+  return index;
+};
+
+type StepConditions = Pick<SequenceItem, 'skip' | 'probability' | 'repeat' | 'everyNthPass'>;
+
+// Resolves one press against the steps' conditions: a repeating step is played again,
+// skipped steps are passed over, and a step whose probability or pass condition fails is a rest.
+export const takeConditionalStep = (state: StepOrderState, order: StepOrder, steps: StepConditions[], random: () => number = Math.random): { index: number, play: boolean } => {
+  let index = -1;
+  if (state.repeatsLeft > 0 && state.repeatIndex !== null && state.repeatIndex < steps.length) {
+    state.repeatsLeft--;
+    index = state.repeatIndex;
+  } else {
+    // Random and shuffle orders may draw skipped steps several times before a playable one
+    for (let tries = 0; tries < steps.length * 4 && index < 0; tries++) {
+      const candidate = takeStep(state, order, steps.length, random);
+      if (!steps[candidate].skip) index = candidate;
+    }
+    if (index < 0) return { index: -1, play: false };
+    if (order === 'random') {
+      // A random pass is as many played positions as there are playable steps
+      const playable = steps.filter(s => !s.skip).length;
+      if (state.pass < 0 || state.drawn >= playable) {
+        state.pass++;
+        state.drawn = 0;
+      }
+      state.drawn++;
+    }
+    state.repeatIndex = index;
+    state.repeatsLeft = Math.max(1, steps[index].repeat ?? 1) - 1;
+  }
+
+  const step = steps[index];
+  const onPass = !step.everyNthPass || step.everyNthPass <= 1 || (state.pass + 1) % step.everyNthPass === 0;
+  const play = onPass && (step.probability === undefined || step.probability >= 1 || random() < step.probability);
+  return { index, play };
+};
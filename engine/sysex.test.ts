@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { parseSysExHex } from './sysex';
+
+describe('parseSysExHex', () => {
+  it('parses spaced, packed and 0x-prefixed hex', () => {
+    expect(parseSysExHex('F0 43 10 4C F7').bytes).toEqual([0xf0, 0x43, 0x10, 0x4c, 0xf7]);
+    expect(parseSysExHex('f0431 04cf7').bytes).toEqual([0xf0, 0x43, 0x10, 0x4c, 0xf7]);
+    expect(parseSysExHex('0xF0, 0x7E, 0xF7').bytes).toEqual([0xf0, 0x7e, 0xf7]);
+  });
+
+  it('requires F0…F7 framing with data bytes in between', () => {
+    expect(parseSysExHex('').error).toMatch(/hex bytes/);
+    expect(parseSysExHex('F0 4G F7').error).toMatch(/hex digits/);
+    expect(parseSysExHex('F0 43 1 F7').error).toMatch(/two hex digits/);
+    expect(parseSysExHex('43 10 F7').error).toMatch(/start with F0/);
+    expect(parseSysExHex('F0 43 10').error).toMatch(/end with F7/);
+    expect(parseSysExHex('F0 43 90 F7').error).toMatch(/Byte 3 \(90\)/);
+  });
+
+  it('checks the manufacturer ID', () => {
+    expect(parseSysExHex('F0 F7').error).toMatch(/manufacturer/);
+    expect(parseSysExHex('F0 00 20 F7').error).toMatch(/three bytes/);
+    expect(parseSysExHex('F0 00 20 29 01 F7').error).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+export type SysExParseResult = { bytes: number[], error: null } | { bytes: null, error: string };
+
+// Parses a System Exclusive message typed as hex, e.g. "F0 43 10 4C 00 00 7E 00 F7".
+// Spaces, commas and 0x prefixes are ignored. The message must be framed by F0…F7, carry a
+// manufacturer ID (one byte, or three starting with 00) and only data bytes (00-7F) in between.
+export const parseSysExHex = (hex: string): SysExParseResult => {
+  const digits = hex.replace(/0x/gi, '').replace(/[\s,]+/g, '');
+  if (digits.length === 0) return { bytes: null, error: 'Enter the message as hex bytes' };
+  if (!/^[0-9a-f]*$/i.test(digits)) return { bytes: null, error: 'Only hex digits (0-9, A-F) are allowed' };
+  if (digits.length % 2 !== 0) return { bytes: null, error: 'Every byte needs two hex digits' };
+
+  const bytes = (digits.match(/../g) ?? []).map(pair => parseInt(pair, 16));
+  if (bytes[0] !== 0xf0) return { bytes: null, error: 'Must start with F0' };
+  if (bytes.length < 2 || bytes[bytes.length - 1] !== 0xf7) return { bytes: null, error: 'Must end with F7' };
+  const body = bytes.slice(1, -1);
+  const bad = body.findIndex(b => b > 0x7f);
+  if (bad !== -1) return { bytes: null, error: `Byte ${bad + 2} (${body[bad].toString(16).toUpperCase()}) is not a data byte (00-7F)` };
+  if (body.length === 0) return { bytes: null, error: 'Missing manufacturer ID' };
+  if (body[0] === 0x00 && body.length < 3) return { bytes: null, error: 'Extended manufacturer IDs take three bytes (00 xx xx)' };
+  return { bytes, error: null };
+};
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { TapTempo } from './tapTempo';
+
+describe('TapTempo', () => {
+  it('needs two taps before reporting a tempo', () => {
+    const tapper = new TapTempo();
+    expect(tapper.tap(0)).toBeNull();
+    expect(tapper.tap(500)).toBeCloseTo(120, 5);
+  });
+
+  it('averages the recent taps', () => {
+    const tapper = new TapTempo();
+    [0, 480, 1000, 1500].forEach(t => tapper.tap(t));
+    expect(tapper.tap(2000)).toBeCloseTo(120, 5);
+  });
+
+  it('starts over after a long pause', () => {
+    const tapper = new TapTempo();
+    tapper.tap(0);
+    tapper.tap(500);
+    expect(tapper.tap(5000)).toBeNull();
+    expect(tapper.tap(5600)).toBeCloseTo(100, 5);
+  });
+});
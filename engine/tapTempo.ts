@@ -0,0 +1,23 @@
+// Tap tempo: averages the intervals of recent taps. A pause longer than MAX_TAP_INTERVAL_MS
+// starts a new measurement, so a stray tap never drags the tempo.
+const MAX_TAP_INTERVAL_MS = 2000;
+const MAX_TAPS = 8;
+
+export class TapTempo {
+  private taps: number[] = [];
+
+  // Returns the tapped BPM once at least two taps are in, otherwise null
+  tap(time: number): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && (time - last > MAX_TAP_INTERVAL_MS || time <= last)) this.taps = [];
+    this.taps.push(time);
+    if (this.taps.length > MAX_TAPS) this.taps.shift();
+    if (this.taps.length < 2) return null;
+    const avg = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+    return 60000 / avg;
+  }
+
+  reset() {
+    this.taps = [];
+  }
+}
@@ -0,0 +1,49 @@
+import { midiService } from '../webMidiService';
+import { MidiOutputPort, MidiTransportPort } from './midiOutputPort';
+
+// MidiOutputPort backed by a WebMidi output. The device is looked up on every message,
+// so a port that disappears (or shows up after a rescan) is handled transparently.
+export const createWebMidiOutputPort = (outputId: string): MidiOutputPort => ({
+  noteOn(pitch, velocity, channel, time) {
+    midiService.getOutputById(outputId)?.playNote(pitch, { attack: velocity, channels: [channel] as any, time });
+  },
+  noteOff(pitch, channel, time) {
+    midiService.getOutputById(outputId)?.stopNote(pitch, { channels: [channel] as any, time });
+  },
+  controlChange(cc, value, channel, time) {
+    midiService.getOutputById(outputId)?.sendControlChange(cc, value, { channels: [channel] as any, time });
+  },
+  pitchBend(value, channel, time) {
+    const raw = value + 8192;
+    midiService.getOutputById(outputId)?.sendPitchBend([raw >> 7, raw & 0x7f], { channels: [channel] as any, rawValue: true, time });
+  },
+  channelPressure(value, channel, time) {
+    midiService.getOutputById(outputId)?.sendChannelAftertouch(value, { channels: [channel] as any, rawValue: true, time });
+  },
+  programChange(program, channel, time) {
+    midiService.getOutputById(outputId)?.sendProgramChange(program, { channels: [channel] as any, time });
+  },
+  sysex(bytes, time) {
+    // Without sysex access the browser refuses the message; Settings tells the user why
+    if (midiService.sysexAccess !== 'granted') return;
+    midiService.getOutputById(outputId)?.send(bytes, { time });
+  }
+});
+
+export const createWebMidiTransportPort = (outputId: string): MidiTransportPort => ({
+  clock(time) {
+    midiService.getOutputById(outputId)?.sendClock({ time });
+  },
+  start(time) {
+    midiService.getOutputById(outputId)?.sendStart({ time });
+  },
+  stop(time) {
+    midiService.getOutputById(outputId)?.sendStop({ time });
+  },
+  continue(time) {
+    midiService.getOutputById(outputId)?.sendContinue({ time });
+  },
+  songPosition(midiBeats, time) {
+    midiService.getOutputById(outputId)?.sendSongPosition(midiBeats, { time });
+  }
+});
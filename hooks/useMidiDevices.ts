@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { midiService } from '../webMidiService';
+
+// Changes whenever a MIDI device connects or disconnects (or on a manual rescan).
+// Effects that attach device listeners list it as a dependency so they re-attach.
+export const useMidiDevices = () => useSyncExternalStore(midiService.subscribe, midiService.getDeviceVersion);
@@ -3,7 +3,12 @@ export type MidiNoteNumber = number; // 0-127
 
 export type DurationUnit = 'ms' | 'beat';
 
-export type GlissandoMode = 'white' | 'black' | 'both';
+export type GlissandoMode = 'white' | 'black' | 'both' | 'scale';
+export type GlissandoAcceleration = 'none' | 'ease_in' | 'ease_out' | 'ease_in_out';
+export type GlissandoVelocityCurve = 'linear' | 'exponential' | 'logarithmic' | 's_curve';
+// What an attack run still playing does when the preset is released
+export type GlissandoEarlyRelease = 'finish' | 'abort' | 'jump_to_release';
+export type ScaleType = 'major' | 'natural_minor' | 'harmonic_minor' | 'major_pentatonic' | 'minor_pentatonic' | 'whole_tone' | 'custom';
 
 export interface GlissandoConfig {
   attackEnabled: boolean;
@@ -12,6 +17,16 @@ export interface GlissandoConfig {
   targetNote: number;
   speed: number; // ms per note step
   mode: GlissandoMode;
+  // 'scale' mode only
+  scale?: ScaleType; // unset = major
+  scaleRoot?: number; // pitch class 0-11 (0 = C)
+  customPitchClasses?: number[]; // pitch classes for the 'custom' scale
+  // Shaping
+  acceleration?: GlissandoAcceleration; // ease_in = slow start, ease_out = slow end; unset = even steps
+  legato?: number; // 0-1, how far each note overlaps the next step; unset = 0
+  velocityCurve?: GlissandoVelocityCurve; // shape of the start→target velocity ramp; unset = linear
+  sustainLastNote?: boolean; // attack run: the last note holds until the preset is released
+  earlyRelease?: GlissandoEarlyRelease; // unset = finish
   lowestVelocity: number;
   targetVelocity: number;
 }
@@ -24,6 +39,56 @@ export interface NoteItem {
   preDelay: number; // ms
   duration: number | null; // value in durationUnit, null means play until release
   durationUnit: DurationUnit;
+  destinationId?: string; // unset = the preset's destination
+}
+
+// Random variation applied when notes are played; stored notes are never changed
+export interface HumanizeConfig {
+  timingMs: number; // notes start up to ± this many ms off
+  velocity: number; // ± this much velocity (0-1 scale)
+  seed?: number | null; // set = the same variations on every run after a reset
+}
+
+export type ArpPattern = 'up' | 'down' | 'up_down' | 'random' | 'as_played';
+
+// Plays the preset's notes one at a time instead of as a chord
+export interface ArpeggiatorConfig {
+  enabled: boolean;
+  pattern: ArpPattern;
+  rate: number; // beats per step
+  octaves: number; // 1 = notes as written
+  gate: number; // 0-1, fraction of a step each note sounds
+  cycles: number | null; // null = runs while held
+}
+
+export type ControllerEventType = 'cc' | 'pitch_bend' | 'pressure';
+
+// A controller message a preset sends along with its notes
+export interface ControllerEvent {
+  id: string;
+  type: ControllerEventType;
+  channel: number; // 1-16
+  controller: number; // CC number ('cc' only)
+  value: number; // 0-127; pitch bend -8192..8191 with 0 = centre
+  preDelay: number; // ms
+  rampTo?: number | null; // set = ramp from value to this over rampMs
+  rampMs?: number;
+  resetValue?: number | null; // set = sent when the preset is released
+}
+
+// Bank select (CC0/CC32, when set) followed by a program change on one channel
+export interface ProgramChange {
+  channel: number; // 1-16
+  program: number; // 0-127
+  bankMsb?: number | null;
+  bankLsb?: number | null;
+}
+
+// System Exclusive message a preset sends before its notes
+export interface SysExEvent {
+  id: string;
+  hex: string; // F0 … F7, e.g. "F0 43 10 4C 00 00 7E 00 F7"
+  preDelay: number; // ms
 }
 
 export interface NotePreset {
@@ -31,6 +96,12 @@ export interface NotePreset {
   name: string;
   notes: NoteItem[];
   glissando?: GlissandoConfig;
+  arpeggiator?: ArpeggiatorConfig;
+  humanize?: HumanizeConfig;
+  controllers?: ControllerEvent[];
+  programChange?: ProgramChange; // sent before the preset's notes
+  sysex?: SysExEvent[];
+  destinationId?: string; // output destination of its notes and messages; unset = Master MIDI Output
   folderId?: string | null;
 }
 
@@ -39,17 +110,23 @@ export interface PresetFolder {
   name: string;
 }
 
-export type SequenceItemType = 'preset' | 'note' | 'sequence';
+export type SequenceItemType = 'preset' | 'note' | 'sequence' | 'sysex';
 
 export interface SequenceItem {
   id: string;
   type: SequenceItemType;
   targetId?: string; // Preset ID or Sequence ID
   noteData?: Omit<NoteItem, 'id'>; // Direct note data
+  sysexHex?: string; // 'sysex' items: the message as hex, F0 … F7
   beatPosition: number; // Position in beats from the start
   overrideDuration?: number | null;
   overrideDurationUnit?: DurationUnit;
   sustainUntilNext?: boolean;
+  // STEP/GROUP performance conditions
+  probability?: number; // 0-1 chance the step sounds, unset = always
+  skip?: boolean; // passed over without using a press
+  repeat?: number; // presses spent on this step before advancing, unset = 1
+  everyNthPass?: number; // sounds only on passes N, 2N, ... through the sequence
 }
 
 export enum SequenceMode {
@@ -58,6 +135,15 @@ export enum SequenceMode {
   GROUP = 'GROUP'
 }
 
+// AUTO playback on trigger: play once, play only while the trigger is held, or press to start / press again to stop
+export type AutoPlayMode = 'one_shot' | 'while_held' | 'latch';
+
+// Hold a trigger until the next boundary of the shared transport (4/4 bars)
+export type LaunchQuantize = 'none' | 'quarter_beat' | 'beat' | 'bar';
+
+// STEP/GROUP traversal: shuffle plays every step once before any repeats
+export type StepOrder = 'forward' | 'reverse' | 'ping_pong' | 'random' | 'shuffle';
+
 export interface Sequence {
   id: string;
   name: string;
@@ -65,11 +151,22 @@ export interface Sequence {
   items: SequenceItem[];
   bpm?: number;
   gridSnap?: number;
+  launchQuantize?: LaunchQuantize;
+  humanize?: HumanizeConfig; // notes it plays directly, and presets without their own setting
+  stepOrder?: StepOrder; // STEP/GROUP only, unset = forward
+  // AUTO only
+  autoPlayMode?: AutoPlayMode;
+  loop?: boolean;
+  loopLengthBeats?: number; // unset = up to the bar after the last item
 }
 
 export type TriggerType = 'midi' | 'keyboard';
 export type MappingScope = 'global' | 'scene';
 
+// How a mapping applies the velocity of the incoming note
+export type VelocityMode = 'fixed' | 'scale' | 'replace';
+export type VelocityCurve = 'linear' | 'soft' | 'hard';
+
 export interface InputMapping {
   id: string;
   // Keyboard settings
@@ -78,25 +175,33 @@ export interface InputMapping {
   // MIDI settings
   midiValue: string; // comma separated notes, e.g. "60,62"
   midiChannel: number; // 0 for Omni, 1-16
+  inputDeviceId?: string; // unset = any active input
   isMidiRange: boolean;
   midiRangeStart: number;
   midiRangeEnd: number;
+  transposeByNote?: boolean; // range only: play the preset shifted by (played note - root)
+  transposeRoot?: number; // unset = midiRangeStart
 
   actionType: 'preset' | 'sequence' | 'switch_scene' | 'toggle_preset';
   actionTargetId: string;
   isEnabled: boolean;
   scope: MappingScope;
+  launchQuantize?: LaunchQuantize; // unset = target sequence's setting (or none)
+  velocityMode?: VelocityMode; // unset = fixed (stored velocities as-is)
+  velocityCurve?: VelocityCurve; // unset = linear
+  passThrough?: boolean; // also play the note through the MIDI thru zones; unset = the mapping consumes it
 }
 
-export type GlobalActionType = 'RESET_SEQUENCES' | 'PREV_SONG' | 'NEXT_SONG' | 'GOTO_SONG';
+export type GlobalActionType = 'RESET_SEQUENCES' | 'PREV_SONG' | 'NEXT_SONG' | 'GOTO_SONG' | 'TRANSPORT_START' | 'TRANSPORT_STOP' | 'TRANSPORT_CONTINUE' | 'TAP_TEMPO' | 'BPM_UP' | 'BPM_DOWN' | 'SET_BPM';
 
 export interface GlobalMapping {
   id: string;
   keyboardValue: string;
   midiValue: string; // comma separated notes
   midiChannel: number; // 0 for Omni, 1-16
+  inputDeviceId?: string; // unset = any active input
   actionType: GlobalActionType;
-  actionValue?: number;
+  actionValue?: number; // GOTO_SONG: song #, SET_BPM: BPM, BPM_UP/BPM_DOWN: step (default 1)
   isEnabled: boolean;
 }
 
@@ -117,20 +222,58 @@ export interface Song {
   ccMappings: CCMapping[];
   scenes: Scene[];
   activeSceneId: string;
+  programChanges?: ProgramChange[]; // sent when the song is switched to
+  thruZones?: ThruZone[];
+  // Note-offs of mapping releases and thru notes wait while CC64 >= 64 on the mapping's input channel
+  sustainPedal?: boolean;
+}
+
+// MIDI thru: incoming notes that no mapping consumes are played through every matching zone,
+// so zones with separate key ranges split the keyboard and overlapping ones layer
+export interface ThruZone {
+  id: string;
+  name: string;
+  isEnabled: boolean;
+  sceneId?: string; // only while this scene is active; unset = every scene
+  inputChannel: number; // 0 for Omni, 1-16
+  keyRangeStart: number; // 0-127, inclusive
+  keyRangeEnd: number;
+  outputChannel: number; // 0 = same as the incoming note, 1-16
+  destinationId?: string; // unset = Master MIDI Output
+  transpose: number; // semitones
+  velocityScale: number; // multiplier on the incoming velocity, 1 = unchanged
+}
+
+// 'midi': follow 24-PPQN clock (and Start/Stop/Continue) from the selected input
+export type ClockSource = 'internal' | 'midi';
+
+// A named output notes can be routed to, bound to a device
+export interface OutputDestination {
+  id: string;
+  name: string;
+  outputId: string; // '' = not connected; its notes are dropped
 }
 
 export interface ProjectData {
   name: string;
   songs: Song[];
   selectedInputId: string;
+  activeInputIds?: string[]; // listened to alongside the master input
+  deviceNames?: Record<string, string>; // port id -> device name, to find the device again when its id changes
   selectedOutputId: string;
   globalMappings: GlobalMapping[];
   globalCCMappings: CCMapping[];
+  clockSource?: ClockSource;
+  // Send MIDI clock + transport at the song BPM (internal clock source only)
+  clockOutputEnabled?: boolean;
+  clockOutputId?: string; // empty = Master MIDI Output
+  outputDestinations?: OutputDestination[];
 }
 
 export interface ActiveNoteState {
   pitch: number;
   channel: number;
+  destinationId?: string;
   startTime: number;
   durationMs: number | null;
 }
@@ -141,8 +284,10 @@ export interface CCMapping {
   name: string;
   inputChannel: number; // 0 for Omni, 1-16
   inputCC: number; // 0-127
+  inputDeviceId?: string; // unset = any active input
   
   // Output settings
+  destinationId?: string; // unset = Master MIDI Output
   outputChannel: number; // 1-16
   outputCC: number; // 0-127
   
@@ -1,4 +1,4 @@
-import { Song, NotePreset, NoteItem, Sequence, SequenceItem, SequenceMode, InputMapping, Scene } from '../types';
+import { Song, NotePreset, NoteItem, Sequence, SequenceItem, SequenceMode, InputMapping, Scene, ThruZone } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 // Helper to convert note name (e.g., "C#4") to MIDI number
@@ -334,6 +334,13 @@ export function importSongFromJson(jsonString: string): Song {
       name: s.name,
       mappingIds: (s.mappingIds || []).map((mid: string) => getNewId(mid))
     })),
+    thruZones: parsed.thruZones?.map((z: ThruZone) => ({
+      ...z,
+      id: getNewId(z.id),
+      sceneId: z.sceneId ? getNewId(z.sceneId) : undefined
+    })),
+    programChanges: parsed.programChanges,
+    sustainPedal: parsed.sustainPedal,
     activeSceneId: getNewId(parsed.activeSceneId)
   };
 
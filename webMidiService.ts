@@ -1,9 +1,20 @@
 
 import { WebMidi, Input, Output } from 'webmidi';
+import { resolvePort } from './engine/devicePorts';
+
+// Whether the browser granted System Exclusive access; 'unknown' until MIDI is enabled
+export type SysExAccess = 'unknown' | 'granted' | 'denied';
 
 export class MidiService {
   private static instance: MidiService;
   public isEnabled: boolean = false;
+  public sysexAccess: SysExAccess = 'unknown';
+  // Stored port id -> device name. Port ids can change between machines and reboots,
+  // so a device is found by name and the id is only a hint.
+  private deviceNames: Record<string, string> = {};
+  // Bumped whenever a device connects or disconnects; see subscribe()
+  private deviceVersion = 0;
+  private deviceListeners = new Set<() => void>();
 
   private constructor() {}
 
@@ -16,13 +27,17 @@ export class MidiService {
 
   async init(): Promise<void> {
     try {
+      // Already enabled (a second init, or a hot reload): only the service state is set up again
       if (WebMidi.enabled) {
-        this.isEnabled = true;
-        return;
+        this.sysexAccess = WebMidi.sysexEnabled ? 'granted' : 'denied';
+      } else {
+        this.sysexAccess = await this.enable();
+        console.log('WebMidi enabled');
       }
-      await WebMidi.enable();
       this.isEnabled = true;
-      console.log('WebMidi enabled');
+      if (!WebMidi.hasListener('connected', this.handlePortChange)) WebMidi.addListener('connected', this.handlePortChange);
+      if (!WebMidi.hasListener('disconnected', this.handlePortChange)) WebMidi.addListener('disconnected', this.handlePortChange);
+      this.handlePortChange();
     } catch (err) {
       console.error('WebMidi could not be enabled:', err);
       this.isEnabled = false;
@@ -30,16 +45,48 @@ export class MidiService {
     }
   }
 
-  // Force re-scan isn't a native WebMidi command (it's automatic), 
-  // but we can re-enable to satisfy some browser edge cases or just trigger UI updates.
-  async rescan(): Promise<void> {
-    if (WebMidi.enabled) {
-      // Browsers handle hot-plugging automatically, but calling enable again 
-      // can sometimes kickstart stuck permissions or interfaces.
+  // Asks for sysex access too. A browser (or user) refusing it rejects the whole request,
+  // so plain MIDI is requested again without it.
+  private async enable(): Promise<SysExAccess> {
+    try {
+      await WebMidi.enable({ sysex: true });
+      return WebMidi.sysexEnabled ? 'granted' : 'denied';
+    } catch (err) {
+      console.warn('SysEx access was not granted, enabling MIDI without it:', err);
       await WebMidi.enable();
-    } else {
+      return 'denied';
+    }
+  }
+
+  // Ports are tracked through the connected/disconnected events; a rescan only
+  // enables MIDI if that failed earlier and makes subscribers look up their devices again.
+  async rescan(): Promise<void> {
+    if (!WebMidi.enabled) {
       await this.init();
+      return;
     }
+    this.handlePortChange();
+  }
+
+  private handlePortChange = () => {
+    this.deviceVersion++;
+    this.deviceListeners.forEach(listener => listener());
+  };
+
+  // useSyncExternalStore-compatible: re-render and re-attach listeners when devices come and go
+  subscribe = (listener: () => void) => {
+    this.deviceListeners.add(listener);
+    return () => { this.deviceListeners.delete(listener); };
+  };
+
+  getDeviceVersion = () => this.deviceVersion;
+
+  setDeviceNames(names: Record<string, string>) {
+    this.deviceNames = names;
+  }
+
+  getDeviceName(id: string): string | undefined {
+    return this.deviceNames[id];
   }
 
   getInputs(): Input[] {
@@ -54,20 +101,22 @@ export class MidiService {
 
   getInputById(id: string): Input | undefined {
     if (!WebMidi.enabled || !id) return undefined;
-    try {
-      return WebMidi.getInputById(id);
-    } catch (e) {
-      return undefined;
-    }
+    return resolvePort(WebMidi.inputs, id, this.deviceNames);
+  }
+
+  // Connected inputs for the given ids, each device once; unknown or empty ids are skipped
+  getInputsByIds(ids: string[]): Input[] {
+    const inputs = new Set<Input>();
+    ids.forEach(id => {
+      const input = this.getInputById(id);
+      if (input) inputs.add(input);
+    });
+    return [...inputs];
   }
 
   getOutputById(id: string): Output | undefined {
     if (!WebMidi.enabled || !id) return undefined;
-    try {
-      return WebMidi.getOutputById(id);
-    } catch (e) {
-      return undefined;
-    }
+    return resolvePort(WebMidi.outputs, id, this.deviceNames);
   }
 }
 